@@ -4,6 +4,7 @@ import { NextResponse } from "next/server";
 export async function GET() {
   return NextResponse.json({
     ok: true,
-    message: "Socket handled by external server",
+    message: "Socket handled by the signaling server (server/index.ts)",
+    url: process.env.NEXT_PUBLIC_SOCKET_SERVER_URL || "http://localhost:4000",
   });
-}
\ No newline at end of file
+}
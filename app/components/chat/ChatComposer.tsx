@@ -0,0 +1,241 @@
+// frontend/src/components/chat/ChatComposer.tsx
+'use client';
+
+import { ChangeEvent, FormEvent, KeyboardEvent, useRef, useState } from 'react';
+import { Paperclip, Send, Type, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChatMessage, ChatMessageFormat } from '@/lib/socket';
+import { MAX_CHAT_LENGTH } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import type { ChatMessageOptions } from '@/app/hooks/useRoom';
+
+type Mentions = NonNullable<ChatMessage['mentions']>;
+
+interface ChatComposerProps {
+    // Everyone else in the room, offered after typing `@`
+    mentionable: { id: string; userName: string }[];
+    // Prefills the composer; remount with a new key to switch messages
+    editing?: ChatMessage;
+    onSubmit: (text: string, options: ChatMessageOptions) => void;
+    onCancelEdit: () => void;
+    // Without it there is no attach button
+    onSendFile?: (file: File) => void;
+    placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// The `@query` being typed right before the caret, if any
+function mentionQueryAt(text: string, caret: number): { start: number; query: string } | null {
+    const match = /(?:^|\s)@([^\s@]{0,32})$/.exec(text.slice(0, caret));
+    if (!match) return null;
+    return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+export default function ChatComposer({
+    mentionable,
+    editing,
+    onSubmit,
+    onCancelEdit,
+    onSendFile,
+    placeholder = 'Type a message...'
+}: ChatComposerProps) {
+    const [draft, setDraft] = useState(editing?.message ?? '');
+    const [format, setFormat] = useState<ChatMessageFormat>(editing?.format ?? 'plain');
+    const [mentions, setMentions] = useState<Mentions>(editing?.mentions ?? []);
+    const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const suggestions = mentionQuery
+        ? mentionable
+            .filter(p => p.userName.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+            .slice(0, MAX_SUGGESTIONS)
+        : [];
+
+    const updateMentionQuery = (text: string, caret: number) => {
+        setMentionQuery(mentionQueryAt(text, caret));
+        setHighlighted(0);
+    };
+
+    const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+        setDraft(e.target.value);
+        updateMentionQuery(e.target.value, e.target.selectionStart);
+    };
+
+    const insertMention = (participant: { id: string; userName: string }) => {
+        if (!mentionQuery) return;
+
+        const caret = textareaRef.current?.selectionStart ?? draft.length;
+        const inserted = `@${participant.userName} `;
+        const next = draft.slice(0, mentionQuery.start) + inserted + draft.slice(caret);
+        const nextCaret = mentionQuery.start + inserted.length;
+
+        setDraft(next);
+        setMentionQuery(null);
+        setMentions(current => current.some(m => m.userId === participant.id)
+            ? current
+            : [...current, { userId: participant.id, userName: participant.userName }]);
+
+        requestAnimationFrame(() => {
+            textareaRef.current?.focus();
+            textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+        });
+    };
+
+    const submit = () => {
+        if (!draft.trim()) return;
+
+        // Mentions whose name was edited back out of the text are dropped
+        const kept = mentions.filter(m => draft.includes(`@${m.userName}`));
+        onSubmit(draft, { format, mentions: kept.length > 0 ? kept : undefined });
+
+        setDraft('');
+        setMentions([]);
+        setMentionQuery(null);
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        submit();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setHighlighted(index => (index + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                insertMention(suggestions[highlighted]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setMentionQuery(null);
+                return;
+            }
+        }
+
+        if (e.key === 'Escape' && editing) {
+            e.preventDefault();
+            onCancelEdit();
+            return;
+        }
+
+        // Enter sends, Shift+Enter starts a new line; leave IME composition alone
+        if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            submit();
+        }
+    };
+
+    const handleFileChosen = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset so choosing the same file again still fires onChange
+        e.target.value = '';
+        if (file) onSendFile?.(file);
+    };
+
+    return (
+        <div className="border-t border-gray-800">
+            {editing && (
+                <div className="flex items-center justify-between px-4 pt-3 text-xs text-blue-300">
+                    <span>Editing message</span>
+                    <button type="button" onClick={onCancelEdit} className="text-gray-400 hover:text-white" title="Cancel edit">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="relative p-4 flex items-end gap-2">
+                {suggestions.length > 0 && (
+                    <ul className="absolute bottom-full left-4 right-4 mb-1 rounded-lg bg-gray-800 border border-gray-700 shadow-lg overflow-hidden">
+                        {suggestions.map((participant, index) => (
+                            <li key={participant.id}>
+                                <button
+                                    type="button"
+                                    // Keep focus in the textarea so the caret position survives
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => insertMention(participant)}
+                                    className={cn(
+                                        "w-full text-left px-3 py-2 text-sm text-gray-200",
+                                        index === highlighted ? "bg-blue-600 text-white" : "hover:bg-gray-700"
+                                    )}
+                                >
+                                    @{participant.userName}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {!editing && onSendFile && (
+                    <>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            className="hidden"
+                            onChange={handleFileChosen}
+                        />
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="text-gray-400 hover:text-white shrink-0"
+                            title="Send a file"
+                        >
+                            <Paperclip className="w-4 h-4" />
+                        </Button>
+                    </>
+                )}
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFormat(current => current === 'markdown' ? 'plain' : 'markdown')}
+                    className={cn(
+                        "shrink-0",
+                        format === 'markdown' ? "text-blue-400 bg-blue-500/10 hover:text-blue-300" : "text-gray-400 hover:text-white"
+                    )}
+                    title={format === 'markdown' ? 'Markdown on: **bold**, *italic*, `code`, ```blocks```' : 'Format with markdown'}
+                    aria-pressed={format === 'markdown'}
+                >
+                    <Type className="w-4 h-4" />
+                </Button>
+                <textarea
+                    ref={textareaRef}
+                    value={draft}
+                    onChange={handleChange}
+                    onKeyDown={handleKeyDown}
+                    onClick={(e) => updateMentionQuery(draft, e.currentTarget.selectionStart)}
+                    onBlur={() => setMentionQuery(null)}
+                    placeholder={format === 'markdown' ? `${placeholder} (markdown)` : placeholder}
+                    maxLength={MAX_CHAT_LENGTH}
+                    rows={1}
+                    className={cn(
+                        "min-h-9 max-h-32 w-full min-w-0 resize-none field-sizing-content rounded-md border px-3 py-1.5 text-sm outline-none",
+                        "bg-gray-800 border-gray-700 text-white placeholder:text-gray-500",
+                        "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+                        format === 'markdown' && "font-mono"
+                    )}
+                    autoFocus
+                />
+                <Button
+                    type="submit"
+                    size="icon"
+                    disabled={!draft.trim()}
+                    title={editing ? 'Save edit' : 'Send message'}
+                    className="shrink-0"
+                >
+                    <Send className="w-4 h-4" />
+                </Button>
+            </form>
+        </div>
+    );
+}
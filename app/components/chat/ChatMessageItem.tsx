@@ -0,0 +1,166 @@
+// frontend/src/components/chat/ChatMessageItem.tsx
+'use client';
+
+import { useState } from 'react';
+import { Lock, Pencil, SmilePlus, Trash2 } from 'lucide-react';
+import { CHAT_REACTIONS, ChatMessage, ChatReaction } from '@/lib/socket';
+import { cn, formatTime } from '@/lib/utils';
+import MessageContent from './MessageContent';
+
+export interface ChatMessageActions {
+    onToggleReaction: (messageId: string, emoji: ChatReaction) => void;
+    onEdit: (message: ChatMessage) => void;
+    onDelete: (messageId: string) => void;
+}
+
+interface ChatMessageItemProps extends ChatMessageActions {
+    message: ChatMessage;
+    currentUserId?: string;
+    // Display name for a user id, for the reaction tooltips
+    nameOf: (userId: string) => string;
+    isEditing?: boolean;
+}
+
+export default function ChatMessageItem({
+    message,
+    currentUserId,
+    nameOf,
+    isEditing = false,
+    onToggleReaction,
+    onEdit,
+    onDelete
+}: ChatMessageItemProps) {
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+    const isOwn = message.userId === currentUserId;
+    const isDeleted = !!message.deletedAt;
+    // Direct messages are not kept by the server, so they cannot be edited or reacted to
+    const isDirect = !!message.recipientId;
+    const isMentioned = !isOwn && !!message.mentions?.some(m => m.userId === currentUserId);
+    const reactions = Object.entries(message.reactions ?? {}) as [ChatReaction, string[]][];
+
+    const react = (emoji: ChatReaction) => {
+        setIsPickerOpen(false);
+        onToggleReaction(message.id, emoji);
+    };
+
+    return (
+        <div className={cn("group/message flex flex-col", isOwn ? "items-end" : "items-start")}>
+            <div className="flex items-baseline gap-2 mb-1">
+                <span className="text-xs font-medium text-gray-300">
+                    {isOwn ? 'You' : message.userName}
+                </span>
+                <span className="text-xs text-gray-500">
+                    {formatTime(new Date(message.timestamp))}
+                </span>
+                {isDirect && (
+                    <span className="flex items-center gap-0.5 text-xs text-purple-300" title="Only the two of you can see this">
+                        <Lock className="w-3 h-3" />
+                        Private
+                    </span>
+                )}
+                {message.editedAt && !isDeleted && (
+                    <span className="text-xs text-gray-500" title={`Edited ${formatTime(new Date(message.editedAt))}`}>
+                        (edited)
+                    </span>
+                )}
+            </div>
+
+            <div className={cn("relative flex items-center gap-1 max-w-[85%]", isOwn && "flex-row-reverse")}>
+                {isDeleted ? (
+                    <p className="px-3 py-2 rounded-lg text-sm italic text-gray-500 border border-gray-800">
+                        This message was deleted
+                    </p>
+                ) : (
+                    <div className={cn(
+                        "min-w-0 px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words",
+                        isOwn ? "bg-blue-600 text-white" : "bg-gray-800 text-gray-100",
+                        isDirect && (isOwn ? "bg-purple-600" : "bg-purple-950 border border-purple-800"),
+                        isMentioned && "ring-1 ring-yellow-400/60",
+                        isEditing && "ring-2 ring-blue-300"
+                    )}>
+                        <MessageContent message={message} currentUserId={currentUserId} />
+                    </div>
+                )}
+
+                {/* Hover actions */}
+                {!isDeleted && !isDirect && (
+                    <div className="flex shrink-0 items-center gap-0.5 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button
+                            type="button"
+                            onClick={() => setIsPickerOpen(open => !open)}
+                            className="p-1 text-gray-400 hover:text-white"
+                            title="Add reaction"
+                        >
+                            <SmilePlus className="w-4 h-4" />
+                        </button>
+                        {isOwn && (
+                            <>
+                                <button
+                                    type="button"
+                                    onClick={() => onEdit(message)}
+                                    className="p-1 text-gray-400 hover:text-white"
+                                    title="Edit message"
+                                >
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        if (confirm('Delete this message for everyone?')) onDelete(message.id);
+                                    }}
+                                    className="p-1 text-gray-400 hover:text-red-400"
+                                    title="Delete message"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {isPickerOpen && (
+                    <div className={cn(
+                        "absolute bottom-full mb-1 z-10 flex gap-1 rounded-full bg-gray-800 border border-gray-700 px-2 py-1 shadow-lg",
+                        isOwn ? "right-0" : "left-0"
+                    )}>
+                        {CHAT_REACTIONS.map(emoji => (
+                            <button
+                                key={emoji}
+                                type="button"
+                                onClick={() => react(emoji)}
+                                className="text-lg leading-none hover:scale-125 transition-transform"
+                            >
+                                {emoji}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {reactions.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                    {reactions.map(([emoji, userIds]) => {
+                        const isMine = !!currentUserId && userIds.includes(currentUserId);
+                        return (
+                            <button
+                                key={emoji}
+                                type="button"
+                                onClick={() => react(emoji)}
+                                title={userIds.map(nameOf).join(', ')}
+                                className={cn(
+                                    "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                                    isMine
+                                        ? "border-blue-500 bg-blue-500/20 text-white"
+                                        : "border-gray-700 bg-gray-800 text-gray-300 hover:border-gray-500"
+                                )}
+                            >
+                                <span>{emoji}</span>
+                                <span>{userIds.length}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,253 @@
+// frontend/src/components/chat/ChatPanel.tsx
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { conversationOf, useStore } from '@/app/store/useStore';
+import type { ChatMessageOptions } from '@/app/hooks/useRoom';
+import { ChatMessage } from '@/lib/socket';
+import { FileTransfer } from '@/lib/fileTransfer';
+import { cn, formatTime } from '@/lib/utils';
+import ChatComposer from './ChatComposer';
+import ChatMessageItem, { ChatMessageActions } from './ChatMessageItem';
+import FileTransferCard, { FileTransferActions } from './FileTransferCard';
+
+interface ChatPanelProps {
+    onSend: (message: string, options: ChatMessageOptions) => void;
+    onEdit: (messageId: string, message: string, options: ChatMessageOptions) => void;
+    onLoadOlder: () => Promise<void>;
+    onSendFile: (file: File) => void;
+    messageActions: Omit<ChatMessageActions, 'onEdit'>;
+    fileActions: FileTransferActions;
+    onClose: () => void;
+}
+
+type ChatItem =
+    | { kind: 'message'; id: string; at: number; message: ChatMessage }
+    | { kind: 'file'; id: string; at: number; transfer: FileTransfer };
+
+export default function ChatPanel({
+    onSend,
+    onEdit,
+    onLoadOlder,
+    onSendFile,
+    messageActions,
+    fileActions,
+    onClose
+}: ChatPanelProps) {
+    const messages = useStore(state => state.messages);
+    const fileTransfers = useStore(state => state.fileTransfers);
+    const participants = useStore(state => state.currentRoom?.participants);
+    const hasMoreHistory = useStore(state => state.hasMoreHistory);
+    const currentUserId = useStore(state => state.currentUser?.id);
+    const conversation = useStore(state => state.chatConversation);
+    const setConversation = useStore(state => state.setChatConversation);
+    const unreadConversations = useStore(state => state.unreadConversations);
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const listEndRef = useRef<HTMLDivElement>(null);
+
+    // Everyone we have a direct conversation with, plus the one just opened
+    const partners = useMemo(() => {
+        const ids = new Set<string>();
+        messages.forEach(message => {
+            const partner = conversationOf(message, currentUserId);
+            if (partner) ids.add(partner);
+        });
+        if (conversation) ids.add(conversation);
+        return Array.from(ids);
+    }, [messages, conversation, currentUserId]);
+
+    // The open conversation's messages, with file transfers in the room timeline
+    const items = useMemo<ChatItem[]>(() => [
+        ...messages
+            .filter(message => conversationOf(message, currentUserId) === conversation)
+            .map(message => ({
+                kind: 'message' as const,
+                id: message.id,
+                at: Date.parse(message.timestamp),
+                message
+            })),
+        ...(conversation ? [] : Array.from(fileTransfers.values())).map(transfer => ({
+            kind: 'file' as const,
+            id: transfer.id,
+            at: transfer.createdAt,
+            transfer
+        }))
+    ].sort((a, b) => a.at - b.at), [messages, fileTransfers, conversation, currentUserId]);
+
+    const others = Array.from(participants?.values() || []).filter(p => p.id !== currentUserId);
+
+    const peerName = (socketId: string) =>
+        others.find(p => p.socketId === socketId)?.userName ?? 'Someone';
+
+    const nameOf = (userId: string) =>
+        userId === currentUserId ? 'You' : participants?.get(userId)?.userName ?? 'Someone who left';
+
+    // Still resolvable from their messages after they leave
+    const partnerName = (userId: string) =>
+        participants?.get(userId)?.userName ??
+        messages.find(m => m.userId === userId)?.userName ??
+        'Former participant';
+
+    const partner = conversation ? participants?.get(conversation) : undefined;
+
+    // Deleted by its author, or by someone else's update, while being edited
+    const editing = messages.find(m => m.id === editingId && !m.deletedAt);
+
+    // Keep the newest item in view; loading older pages leaves the scroll position alone
+    const lastItemId = items[items.length - 1]?.id;
+    useEffect(() => {
+        listEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [lastItemId]);
+
+    const handleLoadOlder = async () => {
+        setIsLoadingOlder(true);
+        try {
+            await onLoadOlder();
+        } finally {
+            setIsLoadingOlder(false);
+        }
+    };
+
+    const handleSubmit = (text: string, options: ChatMessageOptions) => {
+        if (editing) {
+            onEdit(editing.id, text, options);
+            setEditingId(null);
+        } else {
+            onSend(text, { ...options, recipientId: conversation ?? undefined });
+        }
+    };
+
+    return (
+        <div className="fixed right-0 top-0 bottom-0 w-96 bg-gray-900 border-l border-gray-800 shadow-xl flex flex-col">
+            {/* Chat header */}
+            <div className="p-4 border-b border-gray-800">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-white">Chat</h3>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-white"
+                    >
+                        ✕
+                    </Button>
+                </div>
+
+                {/* Conversation tabs */}
+                {partners.length > 0 && (
+                    <div className="mt-3 flex gap-1 overflow-x-auto">
+                        {[null, ...partners].map(id => (
+                            <button
+                                key={id ?? 'room'}
+                                type="button"
+                                onClick={() => setConversation(id)}
+                                className={cn(
+                                    "relative flex shrink-0 items-center gap-1 rounded-full px-3 py-1 text-xs",
+                                    id === conversation
+                                        ? "bg-gray-700 text-white"
+                                        : "text-gray-400 hover:bg-gray-800 hover:text-white"
+                                )}
+                            >
+                                {id ? (
+                                    <>
+                                        <Lock className="w-3 h-3" />
+                                        {partnerName(id)}
+                                    </>
+                                ) : 'Everyone'}
+                                {id && unreadConversations.has(id) && (
+                                    <span className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-red-500" />
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {conversation && (
+                <p className="flex items-center gap-2 px-4 py-2 text-xs text-purple-300 bg-purple-950/40 border-b border-gray-800">
+                    <Lock className="w-3 h-3 shrink-0" />
+                    Private conversation with {partnerName(conversation)}. Nobody else, hosts included, can see it.
+                </p>
+            )}
+
+            {/* Chat messages */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {hasMoreHistory && !conversation && (
+                    <div className="text-center">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleLoadOlder}
+                            disabled={isLoadingOlder}
+                            className="text-gray-400 hover:text-white"
+                        >
+                            {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                        </Button>
+                    </div>
+                )}
+
+                {items.length === 0 ? (
+                    <p className="text-gray-500 text-center text-sm py-8">
+                        {conversation ? 'No private messages yet.' : 'No messages yet. Say hello!'}
+                    </p>
+                ) : (
+                    items.map((item) => {
+                        if (item.kind === 'file') {
+                            return (
+                                <FileTransferCard
+                                    key={item.id}
+                                    transfer={item.transfer}
+                                    peerName={peerName(item.transfer.peerId)}
+                                    {...fileActions}
+                                />
+                            );
+                        }
+
+                        const { message } = item;
+                        if (message.type === 'system') {
+                            return (
+                                <p key={message.id} className="text-center text-xs text-gray-500 italic">
+                                    {message.message} • {formatTime(new Date(message.timestamp))}
+                                </p>
+                            );
+                        }
+
+                        return (
+                            <ChatMessageItem
+                                key={message.id}
+                                message={message}
+                                currentUserId={currentUserId}
+                                nameOf={nameOf}
+                                isEditing={message.id === editing?.id}
+                                onEdit={(m) => setEditingId(m.id)}
+                                {...messageActions}
+                            />
+                        );
+                    })
+                )}
+                <div ref={listEndRef} />
+            </div>
+
+            {/* Composer */}
+            {conversation && !partner ? (
+                <p className="p-4 border-t border-gray-800 text-center text-sm text-gray-500">
+                    {partnerName(conversation)} has left the room
+                </p>
+            ) : (
+                <ChatComposer
+                    key={editing?.id ?? conversation ?? 'new'}
+                    mentionable={partner ? [partner] : others}
+                    editing={editing}
+                    onSubmit={handleSubmit}
+                    onCancelEdit={() => setEditingId(null)}
+                    // Files are offered to everyone, so only from the room tab
+                    onSendFile={conversation ? undefined : onSendFile}
+                    placeholder={partner ? `Message ${partner.userName} privately...` : undefined}
+                />
+            )}
+        </div>
+    );
+}
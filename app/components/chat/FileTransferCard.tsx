@@ -0,0 +1,118 @@
+// frontend/src/components/chat/FileTransferCard.tsx
+'use client';
+
+import { Download, File as FileIcon, Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FileTransfer } from '@/lib/fileTransfer';
+import { cn } from '@/lib/utils';
+
+export interface FileTransferActions {
+    onAccept: (transferId: string) => void;
+    onPause: (transferId: string) => void;
+    onCancel: (transferId: string) => void;
+}
+
+interface FileTransferCardProps extends FileTransferActions {
+    transfer: FileTransfer;
+    // Sender for incoming files, recipient for outgoing ones
+    peerName: string;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const STATUS_LABELS: Record<FileTransfer['status'], string> = {
+    offered: 'Waiting',
+    transferring: 'Transferring',
+    paused: 'Paused',
+    verifying: 'Verifying',
+    complete: 'Complete',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+export default function FileTransferCard({ transfer, peerName, onAccept, onPause, onCancel }: FileTransferCardProps) {
+    const isIncoming = transfer.direction === 'incoming';
+    const progress = Math.round(transfer.bytesTransferred / transfer.size * 100);
+    const isActive = ['offered', 'transferring', 'paused', 'verifying'].includes(transfer.status);
+
+    return (
+        <div className={cn("flex flex-col", isIncoming ? "items-start" : "items-end")}>
+            <span className="text-xs text-gray-400 mb-1">
+                {isIncoming ? `${peerName} is sharing a file` : `Sending to ${peerName}`}
+            </span>
+
+            <div className="w-[85%] bg-gray-800 border border-gray-700 rounded-lg p-3">
+                <div className="flex items-center gap-3">
+                    <FileIcon className="w-8 h-8 text-blue-400 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                        <p className="text-sm text-white font-medium truncate" title={transfer.name}>
+                            {transfer.name}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                            {formatBytes(transfer.size)} • {STATUS_LABELS[transfer.status]}
+                            {transfer.status === 'transferring' || transfer.status === 'paused' ? ` ${progress}%` : ''}
+                        </p>
+                    </div>
+                </div>
+
+                {(transfer.status === 'transferring' || transfer.status === 'paused') && (
+                    <div className="mt-2 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                            className={cn(
+                                "h-full transition-[width]",
+                                transfer.status === 'paused' ? "bg-yellow-500" : "bg-blue-500"
+                            )}
+                            style={{ width: `${progress}%` }}
+                        />
+                    </div>
+                )}
+
+                {transfer.error && (
+                    <p className="mt-2 text-xs text-red-400">{transfer.error}</p>
+                )}
+
+                <div className="mt-2 flex items-center justify-end gap-2">
+                    {isIncoming && transfer.status === 'offered' && (
+                        <Button size="sm" onClick={() => onAccept(transfer.id)}>
+                            <Download className="w-4 h-4 mr-1" />
+                            Download
+                        </Button>
+                    )}
+
+                    {isIncoming && transfer.status === 'transferring' && (
+                        <Button size="sm" variant="ghost" onClick={() => onPause(transfer.id)} title="Pause" className="text-gray-300">
+                            <Pause className="w-4 h-4" />
+                        </Button>
+                    )}
+
+                    {isIncoming && transfer.status === 'paused' && (
+                        <Button size="sm" variant="ghost" onClick={() => onAccept(transfer.id)} title="Resume" className="text-gray-300">
+                            <Play className="w-4 h-4" />
+                        </Button>
+                    )}
+
+                    {isIncoming && transfer.status === 'complete' && transfer.url && (
+                        <a
+                            href={transfer.url}
+                            download={transfer.name}
+                            className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300"
+                        >
+                            <Download className="w-4 h-4 mr-1" />
+                            Save file
+                        </a>
+                    )}
+
+                    {isActive && transfer.status !== 'verifying' && (
+                        <Button size="sm" variant="ghost" onClick={() => onCancel(transfer.id)} title="Cancel" className="text-gray-300">
+                            <X className="w-4 h-4" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,125 @@
+// frontend/src/components/chat/MessageContent.tsx
+'use client';
+
+import { ReactNode, useMemo } from 'react';
+import { ChatMessage } from '@/lib/socket';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MessageContentProps {
+    message: ChatMessage;
+    currentUserId?: string;
+}
+
+type Mentions = NonNullable<ChatMessage['mentions']>;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every `@Name` of a mentioned user; mentions of the reader stand out more
+function highlightMentions(text: string, mentions: Mentions, currentUserId?: string): ReactNode {
+    if (mentions.length === 0) return text;
+
+    // Longest names first, so "@Ann Lee" wins over "@Ann"
+    const names = mentions.map(m => m.userName).sort((a, b) => b.length - a.length);
+    const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))`, 'g');
+
+    return text.split(pattern).map((part, index) => {
+        // split() puts the captured mentions at odd indexes
+        if (index % 2 === 0) return part;
+
+        const mention = mentions.find(m => `@${m.userName}` === part);
+        return (
+            <span
+                key={index}
+                className={cn(
+                    "rounded px-0.5 font-medium",
+                    mention?.userId === currentUserId ? "bg-yellow-400/30 text-yellow-200" : "bg-blue-400/20 text-blue-200"
+                )}
+            >
+                {part}
+            </span>
+        );
+    });
+}
+
+function renderInline(nodes: MarkdownInline[], mentions: Mentions, currentUserId?: string): ReactNode[] {
+    return nodes.map((node, index) => {
+        switch (node.type) {
+            case 'text':
+                return <span key={index}>{highlightMentions(node.text, mentions, currentUserId)}</span>;
+            case 'code':
+                return (
+                    <code key={index} className="rounded bg-black/30 px-1 py-0.5 font-mono text-[0.85em]">
+                        {node.text}
+                    </code>
+                );
+            case 'strong':
+                return <strong key={index}>{renderInline(node.children, mentions, currentUserId)}</strong>;
+            case 'em':
+                return <em key={index}>{renderInline(node.children, mentions, currentUserId)}</em>;
+            case 'strike':
+                return <s key={index}>{renderInline(node.children, mentions, currentUserId)}</s>;
+            case 'link':
+                return (
+                    <a
+                        key={index}
+                        href={node.href}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow"
+                        className="underline underline-offset-2 hover:opacity-80"
+                    >
+                        {renderInline(node.children, mentions, currentUserId)}
+                    </a>
+                );
+        }
+    });
+}
+
+function renderBlock(block: MarkdownBlock, index: number, mentions: Mentions, currentUserId?: string): ReactNode {
+    switch (block.type) {
+        case 'paragraph':
+            return <p key={index}>{renderInline(block.children, mentions, currentUserId)}</p>;
+        case 'code':
+            return (
+                <pre
+                    key={index}
+                    className="overflow-x-auto rounded bg-black/40 p-2 font-mono text-xs whitespace-pre"
+                    title={block.language}
+                >
+                    <code>{block.text}</code>
+                </pre>
+            );
+        case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+                <List key={index} className={cn("pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+                    {block.items.map((item, itemIndex) => (
+                        <li key={itemIndex}>{renderInline(item, mentions, currentUserId)}</li>
+                    ))}
+                </List>
+            );
+        }
+        case 'quote':
+            return (
+                <blockquote key={index} className="border-l-2 border-white/30 pl-2 opacity-90">
+                    {renderInline(block.children, mentions, currentUserId)}
+                </blockquote>
+            );
+    }
+}
+
+export default function MessageContent({ message, currentUserId }: MessageContentProps) {
+    const mentions = message.mentions ?? [];
+    const isMarkdown = message.format === 'markdown';
+    const blocks = useMemo(() => isMarkdown ? parseMarkdown(message.message) : [], [isMarkdown, message.message]);
+
+    if (!isMarkdown) {
+        return <>{highlightMentions(message.message, mentions, currentUserId)}</>;
+    }
+
+    return (
+        <div className="space-y-1.5 whitespace-pre-wrap">
+            {blocks.map((block, index) => renderBlock(block, index, mentions, currentUserId))}
+        </div>
+    );
+}
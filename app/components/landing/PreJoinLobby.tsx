@@ -0,0 +1,176 @@
+// frontend/src/components/landing/PreJoinLobby.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Mic, MicOff, Video, VideoOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MediaState } from '@/lib/socket';
+import { localMedia } from '@/lib/localMedia';
+import { useStore } from '@/app/store/useStore';
+import { useMediaStream } from '@/app/hooks/useMediaStream';
+import { useDeviceManager } from '@/app/hooks/useDeviceManager';
+import { useAudioLevel } from '@/app/hooks/useAudioLevel';
+import DeviceSelect from '@/app/components/settings/DeviceSelect';
+import SpeakerTestButton from '@/app/components/settings/SpeakerTestButton';
+
+interface PreJoinLobbyProps {
+  userName: string;
+  title: string;
+  actionLabel: string;
+  isBusy: boolean;
+  onJoin: (media: MediaState) => void;
+  onBack: () => void;
+}
+
+// Between RoomForm and the room: check camera, mic and speaker, and choose how to walk in
+export default function PreJoinLobby({ userName, title, actionLabel, isBusy, onJoin, onBack }: PreJoinLobbyProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const localStream = useStore(state => state.localStream);
+  const isMicOn = useStore(state => state.isAudioOn);
+  const isCameraOn = useStore(state => state.isVideoOn);
+  // Kept from an earlier call: walk in muted, and let the space bar do the rest
+  const isPushToTalk = useStore(state => state.micSettings.pushToTalk);
+  const { startCamera, hasCamera, hasMicrophone, error: mediaError, isLoading: isStarting } = useMediaStream();
+  const {
+    audioInputs,
+    videoInputs,
+    audioOutputs,
+    preferredDevices,
+    selectDevice,
+    isSwitching,
+    error: deviceError,
+    refresh
+  } = useDeviceManager();
+  const micLevel = useAudioLevel(localStream);
+
+  // The preview becomes the call's local stream, so it is only released if we never get in
+  useEffect(() => {
+    startCamera()
+      .then((stream) => {
+        // Device labels are only readable once permission is granted
+        if (stream) refresh();
+      })
+      .catch(() => { /* shown from useMediaStream's error */ });
+
+    return () => {
+      if (!useStore.getState().currentRoom) localMedia.stop();
+    };
+  }, [startCamera, refresh]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = localStream;
+  }, [localStream]);
+
+  // Off releases the camera, so its light goes out while people wait here too
+  const toggleCamera = () => {
+    localMedia.setVideoEnabled(!isCameraOn).catch(console.error);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={onBack} disabled={isBusy} title="Back">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <h3 className="font-semibold text-gray-800 dark:text-white">{title}</h3>
+      </div>
+
+      {/* Preview */}
+      <div className="relative aspect-video rounded-xl overflow-hidden bg-gray-900">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={cn("w-full h-full object-cover -scale-x-100", (!hasCamera || !isCameraOn) && "invisible")}
+        />
+        {(!hasCamera || !isCameraOn) && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-gray-300">
+            <div className="w-16 h-16 rounded-full bg-blue-600 flex items-center justify-center text-2xl font-medium text-white">
+              {userName.charAt(0).toUpperCase()}
+            </div>
+            <p className="text-sm">
+              {isStarting ? 'Starting camera...' : hasCamera ? 'Camera is off' : 'No camera'}
+            </p>
+          </div>
+        )}
+
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-3">
+          <Button
+            size="icon"
+            variant={isMicOn && hasMicrophone ? "secondary" : "destructive"}
+            onClick={() => localMedia.setAudioEnabled(!isMicOn)}
+            disabled={!hasMicrophone}
+            className="rounded-full"
+            title={isMicOn ? 'Join muted' : 'Join with mic on'}
+          >
+            {isMicOn && hasMicrophone ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+          </Button>
+          <Button
+            size="icon"
+            variant={isCameraOn && hasCamera ? "secondary" : "destructive"}
+            onClick={toggleCamera}
+            disabled={!hasCamera}
+            className="rounded-full"
+            title={isCameraOn ? 'Join with video off' : 'Join with video on'}
+          >
+            {isCameraOn && hasCamera ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
+          </Button>
+        </div>
+      </div>
+
+      {(mediaError || deviceError) && (
+        <p className="text-sm text-red-600 dark:text-red-400">{mediaError || deviceError}</p>
+      )}
+
+      {/* Mic level */}
+      <div className="flex items-center gap-3">
+        <Mic className="w-4 h-4 shrink-0 text-gray-500" />
+        <div className="h-2 flex-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden" title="Microphone level">
+          <div
+            className="h-full bg-green-500 transition-[width] duration-75"
+            style={{ width: `${Math.round(micLevel * 100)}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Devices */}
+      <div className="grid gap-3">
+        <DeviceSelect
+          label="Camera"
+          devices={videoInputs}
+          value={preferredDevices.videoInputId}
+          onChange={(deviceId) => selectDevice('videoInputId', deviceId)}
+          disabled={isStarting || isSwitching}
+        />
+        <DeviceSelect
+          label="Microphone"
+          devices={audioInputs}
+          value={preferredDevices.audioInputId}
+          onChange={(deviceId) => selectDevice('audioInputId', deviceId)}
+          disabled={isStarting || isSwitching}
+        />
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <DeviceSelect
+              label="Speaker"
+              devices={audioOutputs}
+              value={preferredDevices.audioOutputId}
+              onChange={(deviceId) => selectDevice('audioOutputId', deviceId)}
+            />
+          </div>
+          <SpeakerTestButton sinkId={preferredDevices.audioOutputId} />
+        </div>
+      </div>
+
+      <Button
+        onClick={() => onJoin({ isAudioOn: isMicOn && hasMicrophone && !isPushToTalk, isVideoOn: isCameraOn && hasCamera })}
+        className="w-full py-6 text-lg bg-green-600 hover:bg-green-700"
+        disabled={isBusy || isStarting}
+      >
+        {actionLabel}
+      </Button>
+    </div>
+  );
+}
@@ -5,75 +5,143 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 
-import { Video, Users, Lock, Copy, Check } from 'lucide-react';
+import { Video, Users, Lock, Copy, Check, DoorClosed, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useRoom } from '@/app/hooks/useRoom';
+import { JoinDeniedError, RoomJoinFailedError, type MediaState, type RoomJoinErrorCode } from '@/lib/socket';
+import PreJoinLobby from './PreJoinLobby';
+
+type FieldErrors = {
+  userName?: string;
+  roomId?: string;
+  password?: string;
+};
+
+// Join failures the user can fix, shown on the field to fix
+const JOIN_ERROR_FIELDS: Record<RoomJoinErrorCode, FieldErrors> = {
+  'room-not-found': { roomId: 'No room with this ID is open' },
+  'password-required': { password: 'This room is locked. Enter its password' },
+  'wrong-password': { password: 'Incorrect password' },
+  'invite-expired': { password: 'This invite link has expired or was already used. Enter the room password' },
+  'waiting-room-full': { roomId: 'Too many people are waiting to join this room. Try again later' },
+  'room-full': { roomId: 'This room is full' }
+};
+
+interface Details {
+  userName: string;
+  roomId: string;
+  password: string;
+  isCreating: boolean;
+}
+
+const validateDetails = ({ userName, roomId, password, isCreating }: Details): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (!userName.trim()) {
+    errors.userName = 'Name is required';
+  } else if (userName.length < 2) {
+    errors.userName = 'Name must be at least 2 characters';
+  } else if (userName.length > 20) {
+    errors.userName = 'Name must be less than 20 characters';
+  }
+
+  if (!isCreating && !roomId.trim()) {
+    errors.roomId = 'Room ID is required';
+  } else if (!isCreating && roomId.length !== 6) {
+    errors.roomId = 'Room ID must be 6 characters';
+  }
+
+  if (password.length > 128) {
+    errors.password = 'Password must be at most 128 characters';
+  }
+
+  return errors;
+};
 
 interface RoomFormProps {
   onJoinRoom?: (roomId: string) => void;
+  // Prefilled from a room link
+  initialRoomId?: string;
+  initialUserName?: string;
+  // Lets us into a locked room once, instead of the password
+  inviteToken?: string;
 }
 
-export default function RoomForm({ onJoinRoom }: RoomFormProps) {
-  const [userName, setUserName] = useState('');
-  const [roomId, setRoomId] = useState('');
+export default function RoomForm({ onJoinRoom, initialRoomId, initialUserName, inviteToken }: RoomFormProps) {
+  const [userName, setUserName] = useState(initialUserName ?? '');
+  const [roomId, setRoomId] = useState(initialRoomId ?? '');
   const [password, setPassword] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [copied, setCopied] = useState(false);
-  const [errors, setErrors] = useState<{
-    userName?: string;
-    roomId?: string;
-    password?: string;
-  }>({});
+  // Details are checked before the lobby; the actual create or join happens from there
+  // A room link with a remembered name has nothing left to ask, so it goes straight to the lobby
+  const [step, setStep] = useState<'details' | 'lobby'>(() =>
+    initialRoomId && initialUserName &&
+    Object.keys(validateDetails({ userName: initialUserName, roomId: initialRoomId, password: '', isCreating: false })).length === 0
+      ? 'lobby'
+      : 'details'
+  );
+  // In the room's waiting room until a host lets us in or turns us away
+  const [isWaiting, setIsWaiting] = useState(false);
+  const [deniedReason, setDeniedReason] = useState<string | null>(null);
+  const [errors, setErrors] = useState<FieldErrors>({});
 
-  const { createRoom, joinRoom, isLoading, error, setError } = useRoom();
+  const { createRoom, joinRoom, leaveWaitingRoom, isLoading, error, setError } = useRoom();
 
   const validateForm = () => {
-    const newErrors: typeof errors = {};
-    
-    if (!userName.trim()) {
-      newErrors.userName = 'Name is required';
-    } else if (userName.length < 2) {
-      newErrors.userName = 'Name must be at least 2 characters';
-    } else if (userName.length > 20) {
-      newErrors.userName = 'Name must be less than 20 characters';
-    }
-    
-    if (!isCreating && !roomId.trim()) {
-      newErrors.roomId = 'Room ID is required';
-    } else if (!isCreating && roomId.length !== 6) {
-      newErrors.roomId = 'Room ID must be 6 characters';
-    }
-    
+    const newErrors = validateDetails({ userName, roomId, password, isCreating });
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleCreateRoom = async () => {
+  const handleContinue = () => {
     if (!validateForm()) return;
-    
+
+    setError(null);
+    setDeniedReason(null);
+    setStep('lobby');
+  };
+
+  const handleCreateRoom = async (media: MediaState) => {
     setError(null);
     try {
-      const response = await createRoom(userName, roomId);
+      const response = await createRoom(userName, roomId, media);
       console.log(response, "response");
       console.log('Room created with ID:', response.roomId, response.userName);
       setRoomId(response.roomId);
       setIsCreating(false);
     } catch (error) {
       console.error('Failed to create room:', error);
+      setStep('details');
+      if (error instanceof Error) setError(error.message);
     }
   };
 
-  const handleJoinRoom = async () => {
-    if (!validateForm()) return;
-    
+  const handleJoinRoom = async (media: MediaState) => {
     setError(null);
     try {
-      await joinRoom(roomId.toUpperCase(), userName, password || undefined);
+      await joinRoom(
+        roomId.toUpperCase(),
+        userName,
+        { password: password || undefined, inviteToken, media },
+        () => setIsWaiting(true)
+      );
       if (onJoinRoom) {
         onJoinRoom(roomId);
       }
     } catch (error) {
-      console.error('Failed to join room:', error);
+      setStep('details');
+      if (error instanceof JoinDeniedError) {
+        setDeniedReason(error.message);
+      } else if (error instanceof RoomJoinFailedError && error.code) {
+        setErrors(JOIN_ERROR_FIELDS[error.code]);
+      } else if (error instanceof Error) {
+        setError(error.message);
+      } else {
+        console.error('Failed to join room:', error);
+      }
+    } finally {
+      setIsWaiting(false);
     }
   };
 
@@ -92,6 +160,37 @@ export default function RoomForm({ onJoinRoom }: RoomFormProps) {
     }
   };
 
+  if (step === 'lobby') {
+    return (
+      <div className="w-full max-w-md mx-auto space-y-6">
+        {/* Stays mounted while waiting: its preview becomes our stream once admitted */}
+        <PreJoinLobby
+          userName={userName}
+          title={isCreating ? 'Ready to start?' : `Ready to join ${roomId.toUpperCase()}?`}
+          actionLabel={isLoading ? (isCreating ? 'Creating Room...' : 'Joining...') : isCreating ? 'Start meeting' : 'Join now'}
+          isBusy={isLoading || isWaiting}
+          onJoin={isCreating ? handleCreateRoom : handleJoinRoom}
+          onBack={() => setStep('details')}
+        />
+
+        {isWaiting && (
+          <div className="p-6 text-center bg-gray-50 dark:bg-gray-900/40 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-blue-600 dark:text-blue-400" />
+            <div>
+              <p className="font-medium text-gray-800 dark:text-white">Waiting to be let in</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                The host of room {roomId.toUpperCase()} will admit you shortly.
+              </p>
+            </div>
+            <Button variant="outline" className="w-full" onClick={leaveWaitingRoom}>
+              Stop waiting
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-md mx-auto space-y-6">
       {/* Error Display */}
@@ -101,6 +200,16 @@ export default function RoomForm({ onJoinRoom }: RoomFormProps) {
         </div>
       )}
 
+      {deniedReason && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <DoorClosed className="w-5 h-5 shrink-0 text-amber-600 dark:text-amber-400" />
+          <div>
+            <p className="text-sm font-medium text-amber-800 dark:text-amber-300">You were not let in</p>
+            <p className="text-sm text-amber-700 dark:text-amber-400">{deniedReason}</p>
+          </div>
+        </div>
+      )}
+
       {/* User Info */}
       <div className="space-y-4">
         <div>
@@ -173,11 +282,18 @@ export default function RoomForm({ onJoinRoom }: RoomFormProps) {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               placeholder="Room password if required"
-              className="w-full"
+              className={cn(
+                "w-full",
+                errors.password && "border-red-500 focus:border-red-500 focus:ring-red-500"
+              )}
               disabled={isLoading}
             />
-            {errors.password && (
+            {errors.password ? (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.password}</p>
+            ) : inviteToken && (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Your invite link lets you in without the password
+              </p>
             )}
           </div>
         )}
@@ -187,21 +303,21 @@ export default function RoomForm({ onJoinRoom }: RoomFormProps) {
       <div className="space-y-3">
         {isCreating ? (
           <Button
-            onClick={handleCreateRoom}
+            onClick={handleContinue}
             className="w-full py-6 text-lg"
             disabled={isLoading}
           >
             <Video className="w-5 h-5 mr-2" />
-            {isLoading ? 'Creating Room...' : 'Create New Room'}
+            Create New Room
           </Button>
         ) : (
           <Button
-            onClick={handleJoinRoom}
+            onClick={handleContinue}
             className="w-full py-6 text-lg bg-green-600 hover:bg-green-700"
             disabled={isLoading}
           >
             <Users className="w-5 h-5 mr-2" />
-            {isLoading ? 'Joining...' : 'Join Room'}
+            Join Room
           </Button>
         )}
 
@@ -0,0 +1,112 @@
+// frontend/src/components/participants/ParticipantMenu.tsx
+'use client';
+
+import { useState } from 'react';
+import { Crown, Mic, MicOff, MoreVertical, ShieldCheck, ShieldOff, UserX, VideoOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { User } from '@/app/store/useStore';
+import { MediaKind, ParticipantRole } from '@/lib/socket';
+import { cn } from '@/lib/utils';
+
+export interface ModerationActions {
+    onDisableMedia: (userId: string, kind: MediaKind) => void;
+    onRequestUnmute: (userId: string) => void;
+    onRemove: (userId: string) => void;
+    onSetRole: (userId: string, role: Exclude<ParticipantRole, 'host'>) => void;
+    onTransferHost: (userId: string) => void;
+}
+
+interface ParticipantMenuProps extends ModerationActions {
+    participant: User;
+    // Only the host hands out roles or hands over the room
+    canChangeRole: boolean;
+}
+
+interface MenuItem {
+    label: string;
+    icon: typeof Mic;
+    onSelect: () => void;
+    isDestructive?: boolean;
+}
+
+export default function ParticipantMenu({
+    participant,
+    canChangeRole,
+    onDisableMedia,
+    onRequestUnmute,
+    onRemove,
+    onSetRole,
+    onTransferHost
+}: ParticipantMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const { id, userName } = participant;
+
+    const items: MenuItem[] = [
+        participant.isAudioOn
+            ? { label: 'Mute', icon: MicOff, onSelect: () => onDisableMedia(id, 'audio') }
+            : { label: 'Ask to unmute', icon: Mic, onSelect: () => onRequestUnmute(id) },
+        ...(participant.isVideoOn
+            ? [{ label: 'Stop video', icon: VideoOff, onSelect: () => onDisableMedia(id, 'video') }]
+            : []),
+        ...(canChangeRole
+            ? [
+                participant.role === 'co-host'
+                    ? { label: 'Remove co-host', icon: ShieldOff, onSelect: () => onSetRole(id, 'participant') }
+                    : { label: 'Make co-host', icon: ShieldCheck, onSelect: () => onSetRole(id, 'co-host') },
+                {
+                    label: 'Make host',
+                    icon: Crown,
+                    onSelect: () => {
+                        if (confirm(`Make ${userName} the host? You will stay on as a co-host.`)) onTransferHost(id);
+                    }
+                }
+            ]
+            : []),
+        {
+            label: 'Remove from room',
+            icon: UserX,
+            isDestructive: true,
+            onSelect: () => {
+                if (confirm(`Remove ${userName} from the room?`)) onRemove(id);
+            }
+        }
+    ];
+
+    return (
+        <div className="relative">
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsOpen(open => !open)}
+                className="w-8 h-8 text-gray-400 hover:text-white"
+                title={`Manage ${userName}`}
+                aria-expanded={isOpen}
+            >
+                <MoreVertical className="w-4 h-4" />
+            </Button>
+
+            {isOpen && (
+                <ul className="absolute right-0 top-full mt-1 z-10 w-44 rounded-lg bg-gray-800 border border-gray-700 py-1 shadow-lg">
+                    {items.map(({ label, icon: Icon, onSelect, isDestructive }) => (
+                        <li key={label}>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    onSelect();
+                                }}
+                                className={cn(
+                                    "flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-gray-700",
+                                    isDestructive ? "text-red-400" : "text-gray-200"
+                                )}
+                            >
+                                <Icon className="w-4 h-4" />
+                                {label}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
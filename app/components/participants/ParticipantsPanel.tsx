@@ -0,0 +1,186 @@
+// frontend/src/components/participants/ParticipantsPanel.tsx
+'use client';
+
+import { Hand, MessageSquare, MicOff, VideoOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStore } from '@/app/store/useStore';
+import { canModerate, ParticipantRole } from '@/lib/socket';
+import ParticipantMenu, { ModerationActions } from './ParticipantMenu';
+import WaitingRoomSection, { WaitingRoomActions } from './WaitingRoomSection';
+
+interface ParticipantsPanelProps {
+    moderation: ModerationActions;
+    waitingRoom: WaitingRoomActions;
+    onMuteAll: () => void;
+    onLowerHand: (userId: string) => void;
+    onDirectMessage: (userId: string) => void;
+    onClose: () => void;
+}
+
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+    host: 'Host',
+    'co-host': 'Co-host',
+    participant: 'Participant'
+};
+
+// Raised hands first, in the order they went up
+const byHandRaised = (a?: number | null, b?: number | null) =>
+    (a ?? Number.MAX_SAFE_INTEGER) - (b ?? Number.MAX_SAFE_INTEGER);
+
+export default function ParticipantsPanel({
+    moderation,
+    waitingRoom,
+    onMuteAll,
+    onLowerHand,
+    onDirectMessage,
+    onClose
+}: ParticipantsPanelProps) {
+    const participants = useStore(state => state.currentRoom?.participants);
+    const currentUser = useStore(state => state.currentUser);
+    const handRaisedAt = useStore(state => state.handRaisedAt);
+
+    // The room's participant map includes us; we are listed first, separately
+    const remoteParticipants = Array.from(participants?.values() || [])
+        .filter(p => p.id !== currentUser?.id)
+        .sort((a, b) => byHandRaised(a.handRaisedAt, b.handRaisedAt));
+
+    // 1-based place in the speaking queue, by user id
+    const handQueue = new Map(
+        [
+            ...(currentUser && handRaisedAt !== null ? [{ id: currentUser.id, handRaisedAt }] : []),
+            ...remoteParticipants.filter(p => p.handRaisedAt)
+        ]
+            .sort((a, b) => byHandRaised(a.handRaisedAt, b.handRaisedAt))
+            .map((p, index) => [p.id, index + 1])
+    );
+
+    const myRole = currentUser?.role ?? 'participant';
+    const isModerator = myRole !== 'participant';
+    const canMuteSomeone = remoteParticipants.some(p => p.isAudioOn && canModerate(myRole, p.role));
+
+    return (
+        <div className="fixed right-0 top-0 bottom-0 w-80 bg-gray-900 border-l border-gray-800 shadow-xl flex flex-col">
+            <div className="p-4 border-b border-gray-800">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-white">
+                        Participants ({remoteParticipants.length + 1})
+                    </h3>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-white"
+                    >
+                        ✕
+                    </Button>
+                </div>
+
+                {isModerator && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={onMuteAll}
+                        disabled={!canMuteSomeone}
+                        className="mt-3 w-full border-gray-700 text-gray-300 hover:bg-gray-800"
+                    >
+                        <MicOff className="w-4 h-4 mr-2" />
+                        Mute everyone
+                    </Button>
+                )}
+            </div>
+
+            {isModerator && <WaitingRoomSection {...waitingRoom} />}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {/* Local user */}
+                <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center">
+                            <span className="text-white text-sm font-medium">
+                                {currentUser?.userName?.charAt(0).toUpperCase()}
+                            </span>
+                        </div>
+                        <div>
+                            <p className="text-white font-medium">{currentUser?.userName} (You)</p>
+                            <p className="text-xs text-gray-400">{ROLE_LABELS[myRole]}</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {currentUser && handQueue.has(currentUser.id) && (
+                            <span className="flex items-center gap-1 text-xs text-amber-400" title="Your place in the queue">
+                                <Hand className="w-4 h-4" />
+                                {handQueue.get(currentUser.id)}
+                            </span>
+                        )}
+                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                    </div>
+                </div>
+
+                {/* Remote participants */}
+                {remoteParticipants.map((participant) => {
+                    const canManage = canModerate(myRole, participant.role);
+
+                    return (
+                        <div
+                            key={participant.id}
+                            className="flex items-center justify-between p-3 hover:bg-gray-800/30 rounded-lg transition-colors"
+                        >
+                            <div className="flex items-center gap-3 min-w-0">
+                                <div className="w-8 h-8 shrink-0 bg-gray-700 rounded-full flex items-center justify-center">
+                                    <span className="text-white text-sm font-medium">
+                                        {participant.userName?.charAt(0).toUpperCase()}
+                                    </span>
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium truncate">{participant.userName}</p>
+                                    <p className="text-xs text-gray-400">{ROLE_LABELS[participant.role]}</p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {handQueue.has(participant.id) && (
+                                    <span className="flex items-center gap-1 text-xs text-amber-400" title="Place in the queue">
+                                        <Hand className="w-4 h-4" />
+                                        {handQueue.get(participant.id)}
+                                    </span>
+                                )}
+                                {handQueue.has(participant.id) && canManage && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => onLowerHand(participant.id)}
+                                        className="h-7 px-2 text-xs text-gray-300 hover:text-white"
+                                        title={`Lower ${participant.userName}'s hand`}
+                                    >
+                                        Lower
+                                    </Button>
+                                )}
+                                {!participant.isAudioOn && (
+                                    <MicOff className="w-4 h-4 text-red-500" />
+                                )}
+                                {!participant.isVideoOn && (
+                                    <VideoOff className="w-4 h-4 text-red-500" />
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onDirectMessage(participant.id)}
+                                    className="w-8 h-8 text-gray-400 hover:text-white"
+                                    title={`Send ${participant.userName} a private message`}
+                                >
+                                    <MessageSquare className="w-4 h-4" />
+                                </Button>
+                                {canManage && (
+                                    <ParticipantMenu
+                                        participant={participant}
+                                        canChangeRole={myRole === 'host'}
+                                        {...moderation}
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
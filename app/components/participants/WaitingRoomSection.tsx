@@ -0,0 +1,95 @@
+// frontend/src/components/participants/WaitingRoomSection.tsx
+'use client';
+
+import { Check, DoorOpen, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStore } from '@/app/store/useStore';
+import { cn, formatTime } from '@/lib/utils';
+
+export interface WaitingRoomActions {
+    onToggle: (enabled: boolean) => void;
+    onAdmit: (requestId: string) => void;
+    onDeny: (requestId: string) => void;
+    onAdmitAll: () => void;
+}
+
+// Shown to hosts and co-hosts at the top of the participants panel
+export default function WaitingRoomSection({ onToggle, onAdmit, onDeny, onAdmitAll }: WaitingRoomActions) {
+    const { isEnabled, waiting } = useStore(state => state.waitingRoom);
+
+    return (
+        <div className="p-4 border-b border-gray-800 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm text-white">
+                    <DoorOpen className="w-4 h-4 text-gray-400" />
+                    Waiting room
+                </div>
+                <button
+                    type="button"
+                    role="switch"
+                    aria-checked={isEnabled}
+                    onClick={() => onToggle(!isEnabled)}
+                    title={isEnabled ? 'Let new people straight in' : 'Make new people wait to be admitted'}
+                    className={cn(
+                        "relative h-5 w-9 rounded-full transition-colors",
+                        isEnabled ? "bg-blue-600" : "bg-gray-700"
+                    )}
+                >
+                    <span className={cn(
+                        "absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white transition-transform",
+                        isEnabled && "translate-x-4"
+                    )} />
+                </button>
+            </div>
+
+            {waiting.length > 0 && (
+                <>
+                    <div className="flex items-center justify-between">
+                        <p className="text-xs text-gray-400">{waiting.length} waiting</p>
+                        {waiting.length > 1 && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={onAdmitAll}
+                                className="h-7 px-2 text-xs text-blue-400 hover:text-blue-300"
+                            >
+                                Admit all
+                            </Button>
+                        )}
+                    </div>
+
+                    <ul className="space-y-1">
+                        {waiting.map(({ requestId, userName, requestedAt }) => (
+                            <li key={requestId} className="flex items-center justify-between rounded-lg bg-gray-800/50 px-3 py-2">
+                                <div className="min-w-0">
+                                    <p className="text-sm text-white truncate">{userName}</p>
+                                    <p className="text-xs text-gray-500">since {formatTime(new Date(requestedAt))}</p>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-1">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => onAdmit(requestId)}
+                                        className="w-8 h-8 text-green-400 hover:text-green-300"
+                                        title={`Admit ${userName}`}
+                                    >
+                                        <Check className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => onDeny(requestId)}
+                                        className="w-8 h-8 text-red-400 hover:text-red-300"
+                                        title={`Deny ${userName}`}
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
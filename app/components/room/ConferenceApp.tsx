@@ -0,0 +1,364 @@
+// frontend/src/components/room/ConferenceApp.tsx
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import RoomForm from '@/app/components/landing/RoomForm';
+import VideoGrid from '@/app/components/video/VideoGrid';
+import MediaControls from '@/app/components/video/MediaControl';
+import ChatPanel from '@/app/components/chat/ChatPanel';
+import ParticipantsPanel from '@/app/components/participants/ParticipantsPanel';
+import SettingsPanel from '@/app/components/settings/SettingsPanel';
+import RoomLockControl from './RoomLockControl';
+import InviteButton from './InviteButton';
+import { useRoom } from '@/app/hooks/useRoom';
+import { useMediaStream } from '@/app/hooks/useMediaStream';
+import { useDeviceManager } from '@/app/hooks/useDeviceManager';
+import { usePushToTalk } from '@/app/hooks/usePushToTalk';
+import { useStore } from '@/app/store/useStore';
+import { Button } from '@/components/ui/button';
+import { Users, Shield, Video as VideoIcon, Mic, Lock } from 'lucide-react';
+
+
+interface ConferenceAppProps {
+  // From a /room/[roomId] link: prefills the join form
+  roomId?: string;
+  userName?: string;
+  inviteToken?: string;
+}
+
+// The landing page until we are in a room, then the meeting itself
+export default function ConferenceApp({ roomId, userName, inviteToken }: ConferenceAppProps) {
+  const {
+    currentRoom,
+    currentUser,
+    sendChatMessage,
+    editChatMessage,
+    deleteChatMessage,
+    toggleChatReaction,
+    lowerHand,
+    setLocalAudio,
+    toggleLocalAudio,
+    disableParticipantMedia,
+    muteAll,
+    requestUnmute,
+    removeParticipantFromRoom,
+    setParticipantRole,
+    transferHost,
+    setWaitingRoomEnabled,
+    admitParticipant,
+    denyParticipant,
+    admitAll,
+    lockRoom,
+    unlockRoom,
+    createInviteLink,
+    loadOlderMessages,
+    sendFile,
+    acceptFile,
+    pauseFile,
+    cancelFile
+  } = useRoom();
+  const { startCamera, isLoading: mediaLoading, error: mediaError } = useMediaStream();
+  // Lives in the store so unread counts know whether the panel is open
+  const showChat = useStore(state => state.isChatOpen);
+  const setShowChat = useStore(state => state.setChatOpen);
+  const setChatConversation = useStore(state => state.setChatConversation);
+  const unmuteRequest = useStore(state => state.unmuteRequest);
+  const setUnmuteRequest = useStore(state => state.setUnmuteRequest);
+  const [showParticipants, setShowParticipants] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Mounted for the whole call so an unplugged device falls back even with settings closed
+  const deviceManager = useDeviceManager();
+  usePushToTalk(setLocalAudio);
+  const startedRef = useRef(false);
+
+  console.log('Current room:', currentRoom);
+
+  // The lobby normally hands us its preview stream; this covers a lobby that got no media
+ useEffect(() => {
+  if (!currentRoom || startedRef.current || useStore.getState().localStream) return;
+
+  // The controller keeps "join muted" / "join with video off" as chosen
+  startedRef.current = true;
+  startCamera().catch(console.error);
+
+  return () => {
+    startedRef.current = false;
+  };
+}, [currentRoom?.id]);
+
+  const handleJoinRoom = (roomId: string) => {
+    console.log('Joined room:', roomId);
+  };
+
+  // Both panels dock on the right, so the chat replaces the participant list
+  const openDirectMessage = (userId: string) => {
+    setChatConversation(userId);
+    setShowChat(true);
+    setShowParticipants(false);
+  };
+
+  // Settings docks on the right as well, so it takes the others' place
+  const toggleSettings = () => {
+    setShowChat(false);
+    setShowParticipants(false);
+    // Labels may have been blank when the list was first read, before permission
+    if (!showSettings) deviceManager.refresh();
+    setShowSettings(!showSettings);
+  };
+
+  if (!currentRoom) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-gray-50 to-blue-50 dark:from-gray-900 dark:to-gray-950">
+        <div className="container mx-auto px-4 py-12">
+          {/* Header */}
+          <header className="text-center mb-12">
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-linear-to-br from-blue-500 to-purple-600 rounded-2xl mb-6 shadow-lg">
+              <VideoIcon className="w-10 h-10 text-white" />
+            </div>
+            <h1 className="text-4xl md:text-5xl font-bold bg-linear-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
+              Video Conference
+            </h1>
+            <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
+              High-quality video calls with screen sharing, real-time chat, and secure rooms.
+              No downloads required.
+            </p>
+          </header>
+
+          {/* Main Content */}
+          <div className="grid md:grid-cols-2 gap-12 max-w-6xl mx-auto">
+            {/* Left Column - Features */}
+            <div className="space-y-8">
+              <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-lg">
+                <h2 className="text-2xl font-bold mb-6 text-gray-800 dark:text-white">
+                  Why Choose Our Platform
+                </h2>
+                
+                <div className="space-y-6">
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <Shield className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-gray-800 dark:text-white">Secure & Private</h3>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm mt-1">
+                        End-to-end encryption and password-protected rooms ensure your meetings are private.
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <Users className="w-6 h-6 text-green-600 dark:text-green-400" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-gray-800 dark:text-white">Up to 20 Participants</h3>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm mt-1">
+                        Crystal clear video and audio for all participants with intelligent bandwidth optimization.
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 bg-purple-100 dark:bg-purple-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <VideoIcon className="w-6 h-6 text-purple-600 dark:text-purple-400" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold text-gray-800 dark:text-white">Screen Sharing</h3>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm mt-1">
+                        Share your entire screen, specific windows, or browser tabs with participants.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Quick Stats */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-white dark:bg-gray-800 rounded-xl p-4 text-center shadow">
+                  <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">20+</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">Max Users</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl p-4 text-center shadow">
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">1080p</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">HD Video</div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl p-4 text-center shadow">
+                  <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">24/7</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">Available</div>
+                </div>
+              </div>
+            </div>
+
+            {/* Right Column - Room Form */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-xl">
+              <div className="mb-8">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-white mb-2">
+                  Start or Join a Meeting
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400">
+                  Create a new room or join an existing one with the room ID.
+                </p>
+              </div>
+
+              <RoomForm
+                onJoinRoom={handleJoinRoom}
+                initialRoomId={roomId}
+                initialUserName={userName}
+                inviteToken={inviteToken}
+              />
+
+              {/* Media Error Display */}
+              {mediaError && (
+                <div className="mt-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-red-600 dark:text-red-400 text-sm">
+                    <strong>Media Error:</strong> {mediaError}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => window.location.reload()}
+                  >
+                    Retry
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <footer className="mt-16 text-center text-sm text-gray-500 dark:text-gray-400">
+            <p>Built with Next.js, Socket.IO, and WebRTC</p>
+            <p className="mt-1">No registration required • End-to-end encrypted • Open source</p>
+          </footer>
+        </div>
+      </div>
+    );
+  }
+
+  // Room View
+  return (
+    <div className="min-h-screen bg-gray-950">
+      {/* Room Header */}
+      <header className="bg-gray-900 border-b border-gray-800 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-linear-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+                <VideoIcon className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="flex items-center gap-2 text-xl font-bold text-white">
+                  Room: <span className="font-mono">{currentRoom.id}</span>
+                  {currentRoom.isLocked && (
+                    <span title="Locked: joining needs the password">
+                      <Lock className="w-4 h-4 text-amber-400" />
+                    </span>
+                  )}
+                </h1>
+                <p className="text-sm text-gray-400">
+                  {currentUser?.userName} • {currentRoom.participants.size} participants
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            {currentUser?.role === 'host' && (
+              <RoomLockControl
+                isLocked={currentRoom.isLocked}
+                onLock={lockRoom}
+                onUnlock={unlockRoom}
+              />
+            )}
+            <InviteButton
+              createInviteLink={createInviteLink}
+              carriesPassword={currentRoom.isLocked && currentUser?.role !== 'participant'}
+            />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="pb-32">
+        <VideoGrid />
+      </main>
+
+      {/* Media Controls */}
+      <MediaControls
+        onToggleChat={() => {
+          setShowSettings(false);
+          setShowChat(!showChat);
+        }}
+        onToggleParticipants={() => {
+          setShowSettings(false);
+          setShowParticipants(!showParticipants);
+        }}
+        onSettings={toggleSettings}
+      />
+
+      {/* Settings Panel */}
+      {showSettings && (
+        <SettingsPanel
+          deviceManager={deviceManager}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Chat Panel */}
+      {showChat && (
+        <ChatPanel
+          onSend={sendChatMessage}
+          onEdit={editChatMessage}
+          onLoadOlder={loadOlderMessages}
+          onSendFile={sendFile}
+          messageActions={{ onToggleReaction: toggleChatReaction, onDelete: deleteChatMessage }}
+          fileActions={{ onAccept: acceptFile, onPause: pauseFile, onCancel: cancelFile }}
+          onClose={() => setShowChat(false)}
+        />
+      )}
+
+      {/* Participants Panel */}
+      {showParticipants && (
+        <ParticipantsPanel
+          moderation={{
+            onDisableMedia: disableParticipantMedia,
+            onRequestUnmute: requestUnmute,
+            onRemove: removeParticipantFromRoom,
+            onSetRole: setParticipantRole,
+            onTransferHost: transferHost
+          }}
+          waitingRoom={{
+            onToggle: setWaitingRoomEnabled,
+            onAdmit: admitParticipant,
+            onDeny: denyParticipant,
+            onAdmitAll: admitAll
+          }}
+          onMuteAll={muteAll}
+          onLowerHand={lowerHand}
+          onDirectMessage={openDirectMessage}
+          onClose={() => setShowParticipants(false)}
+        />
+      )}
+
+      {/* A host or co-host asked us to unmute; only we can turn the mic back on */}
+      {unmuteRequest && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 rounded-lg bg-gray-800 border border-gray-700 px-4 py-3 shadow-xl">
+          <Mic className="w-5 h-5 text-blue-400" />
+          <p className="text-sm text-white">{unmuteRequest} is asking you to unmute</p>
+          <Button size="sm" onClick={toggleLocalAudio}>
+            Unmute
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setUnmuteRequest(null)}
+            className="text-gray-400 hover:text-white"
+          >
+            Dismiss
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
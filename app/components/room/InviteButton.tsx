@@ -0,0 +1,46 @@
+// frontend/src/components/room/InviteButton.tsx
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface InviteButtonProps {
+    createInviteLink: () => Promise<string>;
+    // Whether the link will get people past the lock
+    carriesPassword: boolean;
+}
+
+export default function InviteButton({ createInviteLink, carriesPassword }: InviteButtonProps) {
+    const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(await createInviteLink());
+            setStatus('copied');
+        } catch (error) {
+            console.error('Failed to copy invite link:', error);
+            setStatus('failed');
+        }
+        setTimeout(() => setStatus('idle'), 2000);
+    };
+
+    return (
+        <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopy}
+            className="border-gray-700 text-gray-300 hover:bg-gray-800"
+            title={carriesPassword
+                ? 'The link works once and lets its holder skip the password'
+                : 'Copy a link to this room'}
+        >
+            {status === 'copied' ? (
+                <Check className="w-4 h-4 mr-2 text-green-500" />
+            ) : (
+                <Copy className="w-4 h-4 mr-2" />
+            )}
+            {status === 'copied' ? 'Copied!' : status === 'failed' ? 'Copy failed' : 'Copy Invite'}
+        </Button>
+    );
+}
@@ -0,0 +1,96 @@
+// frontend/src/components/room/RoomLockControl.tsx
+'use client';
+
+import { useState } from 'react';
+import { Lock, LockOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface RoomLockControlProps {
+    isLocked: boolean;
+    onLock: (password: string) => void;
+    onUnlock: () => void;
+}
+
+// Same bound the server applies to `lock-room`
+const MAX_PASSWORD_LENGTH = 128;
+
+// Host only: locking asks for the password joiners will need
+export default function RoomLockControl({ isLocked, onLock, onUnlock }: RoomLockControlProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [password, setPassword] = useState('');
+
+    const handleLock = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+
+        onLock(password);
+        setPassword('');
+        setIsOpen(false);
+    };
+
+    if (isLocked) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={onUnlock}
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                title="Let people join without a password"
+            >
+                <LockOpen className="w-4 h-4 mr-2" />
+                Unlock
+            </Button>
+        );
+    }
+
+    return (
+        <div className="relative">
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsOpen(open => !open)}
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                title="Require a password to join"
+                aria-expanded={isOpen}
+            >
+                <Lock className="w-4 h-4 mr-2" />
+                Lock room
+            </Button>
+
+            {isOpen && (
+                <form
+                    onSubmit={handleLock}
+                    className="absolute right-0 top-full mt-2 z-10 w-64 rounded-lg bg-gray-800 border border-gray-700 p-3 shadow-lg space-y-2"
+                >
+                    <label className="block text-xs text-gray-400">
+                        Password for new joiners
+                    </label>
+                    <Input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        maxLength={MAX_PASSWORD_LENGTH}
+                        autoFocus
+                        className="w-full bg-gray-900 border-gray-700 text-white"
+                    />
+                    <p className="text-xs text-gray-500">People already here stay in the room.</p>
+                    <div className="flex justify-end gap-2">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setIsOpen(false)}
+                            className="text-gray-400 hover:text-white"
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" size="sm" disabled={!password}>
+                            Lock
+                        </Button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,39 @@
+// frontend/src/components/settings/DeviceSelect.tsx
+'use client';
+
+import { cn } from '@/lib/utils';
+
+interface DeviceSelectProps {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string | undefined) => void;
+  disabled?: boolean;
+  // For the dark in-call panels
+  className?: string;
+}
+
+// An empty value means "System default", which follows the OS as devices change
+export default function DeviceSelect({ label, devices, value, onChange, disabled, className }: DeviceSelectProps) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium mb-1 text-gray-600 dark:text-gray-400">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={disabled || devices.length === 0}
+        className={cn(
+          "w-full h-9 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 text-sm text-gray-800 dark:text-gray-200",
+          className
+        )}
+      >
+        <option value="">System default</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,117 @@
+// frontend/src/components/settings/MicSettingsSection.tsx
+'use client';
+
+import { cn } from '@/lib/utils';
+import { GATE_THRESHOLD_RANGE } from '@/lib/audioProcessing';
+import { useMicSettings } from '@/app/hooks/useMicSettings';
+
+interface SwitchRowProps {
+    label: string;
+    description: string;
+    isOn: boolean;
+    onChange: (isOn: boolean) => void;
+}
+
+function SwitchRow({ label, description, isOn, onChange }: SwitchRowProps) {
+    return (
+        <div className="flex items-start justify-between gap-3">
+            <div>
+                <p className="text-sm text-white">{label}</p>
+                <p className="text-xs text-gray-400">{description}</p>
+            </div>
+            <button
+                type="button"
+                role="switch"
+                aria-checked={isOn}
+                aria-label={label}
+                onClick={() => onChange(!isOn)}
+                className={cn(
+                    "relative h-5 w-9 shrink-0 rounded-full transition-colors",
+                    isOn ? "bg-blue-600" : "bg-gray-700"
+                )}
+            >
+                <span className={cn(
+                    "absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white transition-transform",
+                    isOn && "translate-x-4"
+                )} />
+            </button>
+        </div>
+    );
+}
+
+interface SliderProps {
+    label: string;
+    value: number;
+    unit: string;
+    min: number;
+    max: number;
+    step: number;
+    onChange: (value: number) => void;
+    disabled?: boolean;
+}
+
+function Slider({ label, value, unit, min, max, step, onChange, disabled }: SliderProps) {
+    return (
+        <label className={cn("block", disabled && "opacity-50")}>
+            <span className="flex justify-between text-xs font-medium mb-1 text-gray-400">
+                {label}
+                <span>{value}{unit}</span>
+            </span>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                disabled={disabled}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full accent-blue-500"
+            />
+        </label>
+    );
+}
+
+// The mic meter in the call controls shows the result, gate and all
+export default function MicSettingsSection() {
+    const { settings, applySettings } = useMicSettings();
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Microphone</h4>
+
+            <Slider
+                label="Input volume"
+                value={settings.gain}
+                unit="%"
+                min={0}
+                max={200}
+                step={5}
+                onChange={(gain) => applySettings({ ...settings, gain })}
+            />
+
+            <SwitchRow
+                label="Noise gate"
+                description="Silence the mic until you are louder than the threshold"
+                isOn={settings.noiseGate}
+                onChange={(noiseGate) => applySettings({ ...settings, noiseGate })}
+            />
+            <Slider
+                label="Threshold"
+                value={settings.gateThreshold}
+                unit=" dB"
+                min={GATE_THRESHOLD_RANGE.min}
+                max={GATE_THRESHOLD_RANGE.max}
+                step={1}
+                disabled={!settings.noiseGate}
+                onChange={(gateThreshold) => applySettings({ ...settings, gateThreshold })}
+            />
+
+            <SwitchRow
+                label="Push to talk"
+                description="Stay muted except while holding Space"
+                isOn={settings.pushToTalk}
+                onChange={(pushToTalk) => applySettings({ ...settings, pushToTalk })}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,95 @@
+// frontend/src/components/settings/SettingsPanel.tsx
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { DeviceManager } from '@/app/hooks/useDeviceManager';
+import DeviceSelect from './DeviceSelect';
+import SpeakerTestButton from './SpeakerTestButton';
+import VideoEffectsSection from './VideoEffectsSection';
+import MicSettingsSection from './MicSettingsSection';
+
+interface SettingsPanelProps {
+    deviceManager: DeviceManager;
+    onClose: () => void;
+}
+
+const SELECT_CLASS = 'bg-gray-800 border-gray-700 text-white';
+
+// Changes apply straight away; peers keep their connection to us throughout
+export default function SettingsPanel({ deviceManager, onClose }: SettingsPanelProps) {
+    const {
+        audioInputs,
+        videoInputs,
+        audioOutputs,
+        preferredDevices,
+        selectDevice,
+        isSwitching,
+        error
+    } = deviceManager;
+
+    return (
+        <div className="fixed right-0 top-0 bottom-0 w-80 bg-gray-900 border-l border-gray-800 shadow-xl flex flex-col">
+            <div className="p-4 border-b border-gray-800">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-white">Settings</h3>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-white"
+                    >
+                        ✕
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Devices</h4>
+
+                <DeviceSelect
+                    label="Camera"
+                    devices={videoInputs}
+                    value={preferredDevices.videoInputId}
+                    onChange={(deviceId) => selectDevice('videoInputId', deviceId)}
+                    disabled={isSwitching}
+                    className={SELECT_CLASS}
+                />
+                <DeviceSelect
+                    label="Microphone"
+                    devices={audioInputs}
+                    value={preferredDevices.audioInputId}
+                    onChange={(deviceId) => selectDevice('audioInputId', deviceId)}
+                    disabled={isSwitching}
+                    className={SELECT_CLASS}
+                />
+                {audioOutputs.length > 0 && (
+                    <div className="flex items-end gap-2">
+                        <div className="flex-1">
+                            <DeviceSelect
+                                label="Speaker"
+                                devices={audioOutputs}
+                                value={preferredDevices.audioOutputId}
+                                onChange={(deviceId) => selectDevice('audioOutputId', deviceId)}
+                                className={SELECT_CLASS}
+                            />
+                        </div>
+                        <SpeakerTestButton
+                            sinkId={preferredDevices.audioOutputId}
+                            className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                        />
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                <div className="pt-4 border-t border-gray-800">
+                    <MicSettingsSection />
+                </div>
+
+                <div className="pt-4 border-t border-gray-800">
+                    <VideoEffectsSection />
+                </div>
+            </div>
+        </div>
+    );
+}
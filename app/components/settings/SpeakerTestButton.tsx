@@ -0,0 +1,70 @@
+// frontend/src/components/settings/SpeakerTestButton.tsx
+'use client';
+
+import { useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const TEST_TONE_HZ = 440;
+const TEST_TONE_SECONDS = 1.5;
+
+// A short beep through the chosen speaker, so people can check they hear the call
+const playTestTone = (sinkId?: string): Promise<void> => {
+  const audioContext = new AudioContext();
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  const destination = audioContext.createMediaStreamDestination();
+  const audio = new Audio();
+
+  oscillator.frequency.value = TEST_TONE_HZ;
+  gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + TEST_TONE_SECONDS);
+  oscillator.connect(gain).connect(destination);
+  audio.srcObject = destination.stream;
+
+  return new Promise((resolve, reject) => {
+    oscillator.onended = () => {
+      audio.pause();
+      audioContext.close();
+      resolve();
+    };
+
+    (sinkId ? audio.setSinkId(sinkId) : Promise.resolve())
+      .then(() => audio.play())
+      .then(() => {
+        oscillator.start();
+        oscillator.stop(audioContext.currentTime + TEST_TONE_SECONDS);
+      })
+      .catch((error) => {
+        audioContext.close();
+        reject(error);
+      });
+  });
+};
+
+interface SpeakerTestButtonProps {
+  sinkId?: string;
+  className?: string;
+}
+
+export default function SpeakerTestButton({ sinkId, className }: SpeakerTestButtonProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const handleTest = async () => {
+    setIsPlaying(true);
+    try {
+      await playTestTone(sinkId);
+    } catch (error) {
+      console.error('Speaker test failed:', error);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleTest} disabled={isPlaying} className={className}>
+      <Volume2 className="w-4 h-4 mr-2" />
+      {isPlaying ? 'Playing...' : 'Test'}
+    </Button>
+  );
+}
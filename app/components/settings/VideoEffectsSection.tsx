@@ -0,0 +1,156 @@
+// frontend/src/components/settings/VideoEffectsSection.tsx
+'use client';
+
+import { Ban, Droplet, ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+    BackgroundEffect,
+    BLUR_RADIUS,
+    DEFAULT_VIDEO_EFFECTS,
+    PRESET_BACKGROUNDS
+} from '@/lib/videoEffects';
+import { useVideoEffects } from '@/app/hooks/useVideoEffects';
+
+// Percent either side of 100 the lighting sliders allow
+const LIGHTING_RANGE = 50;
+
+interface TileProps {
+    label: string;
+    isSelected: boolean;
+    onClick: () => void;
+    children?: React.ReactNode;
+    style?: React.CSSProperties;
+}
+
+function Tile({ label, isSelected, onClick, children, style }: TileProps) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            title={label}
+            aria-pressed={isSelected}
+            style={style}
+            className={cn(
+                "aspect-video rounded-md border-2 bg-gray-800 bg-cover bg-center flex items-center justify-center text-gray-300 hover:text-white transition-colors",
+                isSelected ? "border-blue-500" : "border-transparent hover:border-gray-600"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+interface LightingSliderProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+function LightingSlider({ label, value, onChange }: LightingSliderProps) {
+    return (
+        <label className="block">
+            <span className="flex justify-between text-xs font-medium mb-1 text-gray-400">
+                {label}
+                <span>{value}%</span>
+            </span>
+            <input
+                type="range"
+                min={100 - LIGHTING_RANGE}
+                max={100 + LIGHTING_RANGE}
+                step={5}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full accent-blue-500"
+            />
+        </label>
+    );
+}
+
+// Background and lighting for the camera; what the self-view shows is what peers get
+export default function VideoEffectsSection() {
+    const { effects, applyEffects, isLoading, error } = useVideoEffects();
+    const { background } = effects;
+
+    const setBackground = (next: BackgroundEffect) => applyEffects({ ...effects, background: next });
+
+    const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setBackground({ type: 'image', src: URL.createObjectURL(file) });
+    };
+
+    const isUpload = background.type === 'image' && background.src.startsWith('blob:');
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Background</h4>
+
+            <div className="grid grid-cols-3 gap-2">
+                <Tile label="No effect" isSelected={background.type === 'none'} onClick={() => setBackground({ type: 'none' })}>
+                    <Ban className="w-5 h-5" />
+                </Tile>
+                <Tile
+                    label="Slight blur"
+                    isSelected={background.type === 'blur' && background.radius === BLUR_RADIUS.light}
+                    onClick={() => setBackground({ type: 'blur', radius: BLUR_RADIUS.light })}
+                >
+                    <Droplet className="w-4 h-4" />
+                </Tile>
+                <Tile
+                    label="Blur"
+                    isSelected={background.type === 'blur' && background.radius === BLUR_RADIUS.strong}
+                    onClick={() => setBackground({ type: 'blur', radius: BLUR_RADIUS.strong })}
+                >
+                    <Droplet className="w-6 h-6" />
+                </Tile>
+                {PRESET_BACKGROUNDS.map((preset) => (
+                    <Tile
+                        key={preset.id}
+                        label={preset.label}
+                        isSelected={background.type === 'image' && background.src === preset.src}
+                        onClick={() => setBackground({ type: 'image', src: preset.src })}
+                        style={{ backgroundImage: `url("${preset.src}")` }}
+                    />
+                ))}
+                <label
+                    title="Upload an image"
+                    className={cn(
+                        "aspect-video rounded-md border-2 border-dashed bg-gray-800 bg-cover bg-center flex items-center justify-center text-gray-300 hover:text-white cursor-pointer",
+                        isUpload ? "border-blue-500" : "border-gray-700 hover:border-gray-600"
+                    )}
+                    style={isUpload ? { backgroundImage: `url("${background.src}")` } : undefined}
+                >
+                    <ImagePlus className="w-5 h-5" />
+                    <input type="file" accept="image/*" onChange={handleUpload} className="sr-only" />
+                </label>
+            </div>
+
+            {isLoading && <p className="text-xs text-gray-400">Loading background effects...</p>}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <h4 className="pt-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Lighting</h4>
+            <LightingSlider
+                label="Brightness"
+                value={effects.brightness}
+                onChange={(brightness) => applyEffects({ ...effects, brightness })}
+            />
+            <LightingSlider
+                label="Contrast"
+                value={effects.contrast}
+                onChange={(contrast) => applyEffects({ ...effects, contrast })}
+            />
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => applyEffects({ ...effects, brightness: DEFAULT_VIDEO_EFFECTS.brightness, contrast: DEFAULT_VIDEO_EFFECTS.contrast })}
+                disabled={effects.brightness === DEFAULT_VIDEO_EFFECTS.brightness && effects.contrast === DEFAULT_VIDEO_EFFECTS.contrast}
+                className="text-gray-400 hover:text-white"
+            >
+                Reset lighting
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+// frontend/src/components/video/ConnectionQualityBadge.tsx
+'use client';
+
+import { Signal, SignalHigh, SignalLow, SignalMedium, SignalZero } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ConnectionQuality, PeerStats } from '@/lib/stats';
+
+interface ConnectionQualityBadgeProps {
+    stats?: PeerStats;
+    className?: string;
+}
+
+const QUALITY_STYLES: Record<ConnectionQuality, { icon: typeof Signal; color: string; label: string }> = {
+    excellent: { icon: Signal, color: 'text-green-400', label: 'Excellent' },
+    good: { icon: SignalHigh, color: 'text-green-400', label: 'Good' },
+    poor: { icon: SignalMedium, color: 'text-yellow-400', label: 'Poor' },
+    bad: { icon: SignalLow, color: 'text-red-500', label: 'Bad' },
+    unknown: { icon: SignalZero, color: 'text-gray-400', label: 'Measuring...' }
+};
+
+function formatBitrate(kbps: number): string {
+    return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${Math.round(kbps)} kbps`;
+}
+
+function formatMs(value: number | null): string {
+    return value === null ? '—' : `${Math.round(value)} ms`;
+}
+
+export default function ConnectionQualityBadge({ stats, className }: ConnectionQualityBadgeProps) {
+    const quality = stats?.quality ?? 'unknown';
+    const { icon: Icon, color, label } = QUALITY_STYLES[quality];
+
+    const rows: Array<[string, string]> = stats ? [
+        ['Download', formatBitrate(stats.inboundBitrate)],
+        ['Upload', formatBitrate(stats.outboundBitrate)],
+        ['Packet loss', `${stats.packetLoss.toFixed(1)}%`],
+        ['Jitter', formatMs(stats.jitter)],
+        ['Round trip', formatMs(stats.roundTripTime)],
+        ['Frame rate', stats.frameRate === null ? '—' : `${Math.round(stats.frameRate)} fps`],
+        ['Resolution', stats.frameWidth && stats.frameHeight ? `${stats.frameWidth}×${stats.frameHeight}` : '—']
+    ] : [];
+
+    return (
+        <div className={cn("relative group/quality", className)}>
+            <div
+                className="bg-black/60 p-1 rounded cursor-default"
+                aria-label={`Connection quality: ${label}`}
+            >
+                <Icon className={cn("w-4 h-4", color)} />
+            </div>
+
+            {/* Detailed stats on hover */}
+            <div className="absolute right-0 top-full mt-2 w-52 bg-gray-900/95 border border-gray-700 rounded-lg p-3 text-xs text-gray-300 shadow-xl z-20 hidden group-hover/quality:block">
+                <div className={cn("font-semibold mb-2", color)}>
+                    Connection: {label}
+                </div>
+                {rows.length > 0 ? (
+                    <dl className="space-y-1">
+                        {rows.map(([name, value]) => (
+                            <div key={name} className="flex justify-between gap-2">
+                                <dt className="text-gray-400">{name}</dt>
+                                <dd className="font-mono text-white">{value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                ) : (
+                    <p className="text-gray-400">Waiting for statistics...</p>
+                )}
+            </div>
+        </div>
+    );
+}
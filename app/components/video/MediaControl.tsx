@@ -1,20 +1,27 @@
 // frontend/src/components/video/MediaControls.tsx
 'use client';
 
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Mic,
   MicOff,
   Video,
   VideoOff,
-
+  ScreenShare,
+  ScreenShareOff,
   PhoneOff,
   Settings,
   Users,
-  MessageSquare
+  MessageSquare,
+  Hand,
+  SmilePlus
 } from 'lucide-react';
 import { useRoom } from '@/app/hooks/useRoom';
 import { useMediaStream } from '@/app/hooks/useMediaStream';
+import { useAudioLevel } from '@/app/hooks/useAudioLevel';
+import { useStore } from '@/app/store/useStore';
+import { LIVE_REACTIONS } from '@/lib/socket';
 
 interface MediaControlsProps {
   onToggleChat?: () => void;
@@ -30,14 +37,27 @@ export default function MediaControls({
   const {
     isVideoOn,
     isAudioOn,
+    isScreenSharing,
+    handRaisedAt,
  
     toggleLocalVideo,
     toggleLocalAudio,
+    startScreenShare,
+    stopScreenShare,
+    toggleHand,
+    sendReaction,
 
     leaveRoom
   } = useRoom();
 
-  const { hasCamera, hasMicrophone } = useMediaStream();
+  const { localStream, hasCamera, hasMicrophone } = useMediaStream();
+  // What peers get: after gain and gate, and nothing while muted
+  const micLevel = useAudioLevel(localStream);
+  const isPushToTalk = useStore(state => state.micSettings.pushToTalk);
+  const unreadCount = useStore(state => state.unreadCount);
+  // Only hosts and co-hosts are sent the waiting list
+  const waitingCount = useStore(state => state.waitingRoom.waiting.length);
+  const [showReactions, setShowReactions] = useState(false);
 
 
 
@@ -59,18 +79,24 @@ export default function MediaControls({
           size="icon"
           onClick={toggleLocalAudio}
           className={cn(
-            "rounded-full",
+            "relative rounded-full overflow-hidden",
             !hasMicrophone && "opacity-50 cursor-not-allowed",
-            !isAudioOn && "bg-red-600 hover:bg-red-700"
+            !isAudioOn && !isPushToTalk && "bg-red-600 hover:bg-red-700"
           )}
           disabled={!hasMicrophone}
-          title={isAudioOn ? "Mute microphone" : "Unmute microphone"}
+          title={isPushToTalk ? "Hold Space to talk" : isAudioOn ? "Mute microphone" : "Unmute microphone"}
         >
           {isAudioOn ? (
             <Mic className="w-5 h-5 text-white" />
           ) : (
             <MicOff className="w-5 h-5 text-white" />
           )}
+          {isAudioOn && (
+            <span
+              className="absolute bottom-0 left-0 h-1 bg-green-500 transition-[width] duration-75"
+              style={{ width: `${Math.round(micLevel * 100)}%` }}
+            />
+          )}
         </Button>
 
         {/* Video Control */}
@@ -93,7 +119,65 @@ export default function MediaControls({
           )}
         </Button>
 
-     
+        {/* Screen Share */}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={isScreenSharing ? stopScreenShare : startScreenShare}
+          className={cn(
+            "rounded-full",
+            isScreenSharing && "bg-purple-600 hover:bg-purple-700"
+          )}
+          title={isScreenSharing ? "Stop sharing" : "Share screen"}
+        >
+          {isScreenSharing ? (
+            <ScreenShareOff className="w-5 h-5 text-white" />
+          ) : (
+            <ScreenShare className="w-5 h-5 text-white" />
+          )}
+        </Button>
+
+        {/* Raise Hand */}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={toggleHand}
+          className={cn(
+            "rounded-full",
+            handRaisedAt !== null && "bg-amber-500 hover:bg-amber-600"
+          )}
+          title={handRaisedAt !== null ? "Lower hand" : "Raise hand"}
+        >
+          <Hand className="w-5 h-5 text-white" />
+        </Button>
+
+        {/* Live Reactions */}
+        <div className="relative">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowReactions(!showReactions)}
+            className={cn("rounded-full", showReactions && "bg-gray-700")}
+            title="Send a reaction"
+          >
+            <SmilePlus className="w-5 h-5 text-white" />
+          </Button>
+
+          {showReactions && (
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 flex gap-1 bg-black/90 border border-gray-800 rounded-full px-3 py-2 shadow-2xl">
+              {LIVE_REACTIONS.map(emoji => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => sendReaction(emoji)}
+                  className="text-2xl leading-none p-1 hover:scale-125 transition-transform"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
 
         {/* Divider */}
         <div className="h-8 w-px bg-gray-700 mx-2"></div>
@@ -103,10 +187,15 @@ export default function MediaControls({
           variant="ghost"
           size="icon"
           onClick={onToggleParticipants}
-          className="rounded-full"
-          title="View participants"
+          className="rounded-full relative"
+          title={waitingCount > 0 ? `View participants (${waitingCount} waiting)` : "View participants"}
         >
           <Users className="w-5 h-5 text-white" />
+          {waitingCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-amber-500 text-black text-xs font-semibold flex items-center justify-center">
+              {waitingCount > 99 ? '99+' : waitingCount}
+            </span>
+          )}
         </Button>
 
         {/* Chat */}
@@ -114,10 +203,15 @@ export default function MediaControls({
           variant="ghost"
           size="icon"
           onClick={onToggleChat}
-          className="rounded-full"
-          title="Open chat"
+          className="rounded-full relative"
+          title={unreadCount > 0 ? `Open chat (${unreadCount} unread)` : "Open chat"}
         >
           <MessageSquare className="w-5 h-5 text-white" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
         </Button>
 
         {/* Settings */}
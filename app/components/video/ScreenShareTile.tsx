@@ -0,0 +1,63 @@
+// frontend/src/components/video/ScreenShareTile.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { ScreenShare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ScreenShareTileProps {
+    userName: string;
+    stream?: MediaStream;
+    isLocal?: boolean;
+    className?: string;
+}
+
+export default function ScreenShareTile({ userName, stream, isLocal = false, className }: ScreenShareTileProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        const videoElement = videoRef.current;
+        if (!videoElement) return;
+
+        videoElement.srcObject = stream ?? null;
+        if (stream) {
+            videoElement.play().catch(error => {
+                console.log(`⏸️ Screen share playback prevented for ${userName}:`, error.name);
+            });
+        }
+
+        return () => {
+            videoElement.srcObject = null;
+        };
+    }, [stream, userName]);
+
+    const label = isLocal ? 'You are presenting' : `${userName} is presenting`;
+
+    return (
+        <div className={cn(
+            "relative bg-black rounded-xl overflow-hidden aspect-video",
+            className
+        )}>
+            {stream ? (
+                // Screens are shown whole; cropping would cut off content
+                <video
+                    ref={videoRef}
+                    autoPlay
+                    playsInline
+                    muted
+                    className="w-full h-full object-contain"
+                />
+            ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center bg-gradient-to-br from-gray-800 to-gray-900">
+                    <ScreenShare className="w-12 h-12 text-gray-400 mb-4" />
+                    <p className="text-gray-400 text-sm">Connecting to {userName}&apos;s screen...</p>
+                </div>
+            )}
+
+            <div className="absolute top-4 left-4 flex items-center gap-2 bg-purple-600/90 text-white text-sm px-3 py-1 rounded">
+                <ScreenShare className="w-4 h-4" />
+                <span className="truncate max-w-[240px]">{label}</span>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useCallback, useMemo, useRef } from 'react';
 import VideoTile from './VideoTile';
+import ScreenShareTile from './ScreenShareTile';
 import { useStore } from '@/app/store/useStore';
+import { socketService } from '@/lib/socket';
 import { cn } from '@/lib/utils';
 
 export default function VideoGrid() {
@@ -13,6 +15,20 @@ export default function VideoGrid() {
   const isVideoOn = useStore(state => state.isVideoOn);
   const isAudioOn = useStore(state => state.isAudioOn);
   const isScreenSharing = useStore(state => state.isScreenSharing);
+  const screenStream = useStore(state => state.screenStream);
+  const handRaisedAt = useStore(state => state.handRaisedAt);
+
+  // Last size reported to each remote socket, so re-renders do not resend it
+  const reportedSizes = useRef<Map<string, string>>(new Map());
+
+  // Senders scale their video for us to the size we actually render it at
+  const reportTileSize = useCallback((socketId: string, width: number, height: number) => {
+    const size = `${width}x${height}`;
+    if (reportedSizes.current.get(socketId) === size) return;
+
+    reportedSizes.current.set(socketId, size);
+    socketService.sendVideoSize(socketId, width, height);
+  }, []);
 
   const allParticipants = useMemo(() => {
     const participants = [];
@@ -24,6 +40,7 @@ export default function VideoGrid() {
         isVideoOn,
         isAudioOn,
         isScreenSharing,
+        handRaisedAt: handRaisedAt ?? undefined,
         stream: localStream || undefined,
       });
     }
@@ -48,7 +65,29 @@ export default function VideoGrid() {
     })));
 
     return participants;
-  }, [currentUser, currentRoom, localStream, isVideoOn, isAudioOn, isScreenSharing]);
+  }, [currentUser, currentRoom, localStream, isVideoOn, isAudioOn, isScreenSharing, handRaisedAt]);
+
+  // Screen shares get their own full-width tiles above the cameras
+  const screenShares = useMemo(() => {
+    const shares: { key: string; userName: string; stream?: MediaStream; isLocal: boolean }[] = [];
+
+    if (currentUser && isScreenSharing && screenStream) {
+      shares.push({ key: `${currentUser.id}_screen`, userName: currentUser.userName, stream: screenStream, isLocal: true });
+    }
+
+    Array.from(currentRoom?.participants.values() || []).forEach(participant => {
+      if (participant.id !== currentUser?.id && participant.isScreenSharing) {
+        shares.push({
+          key: `${participant.id}_screen`,
+          userName: participant.userName,
+          stream: participant.screenStream,
+          isLocal: false
+        });
+      }
+    });
+
+    return shares;
+  }, [currentRoom, currentUser, isScreenSharing, screenStream]);
 
   // Calculate grid layout based on participant count
   const gridClasses = useMemo(() => {
@@ -91,11 +130,22 @@ export default function VideoGrid() {
       "grid gap-4 p-4",
       gridClasses
     )}>
+      {screenShares.map(share => (
+        <ScreenShareTile
+          key={share.key}
+          userName={share.userName}
+          stream={share.stream}
+          isLocal={share.isLocal}
+          className="col-span-full max-h-[70vh]"
+        />
+      ))}
+
       {allParticipants.map((participant, index) => (
         <VideoTile
           key={participant.id + (participant.id === currentUser?.id ? '_local' : '_remote')}
           user={participant}
           isLocal={participant.id === currentUser?.id}
+          onRenderSize={participant.id === currentUser?.id ? undefined : reportTileSize}
           className={cn(
             allParticipants.length === 2 && index === 0 && "md:col-span-1",
             allParticipants.length === 3 && index === 0 && "lg:col-span-2",
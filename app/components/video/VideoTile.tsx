@@ -3,19 +3,33 @@
 
 import { useRef, useEffect, useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { Mic, MicOff,  VideoOff, User, ScreenShare } from 'lucide-react';
-import { User as UserType } from '@/app/store/useStore';
+import { Mic, MicOff,  VideoOff, User, ScreenShare, Hand } from 'lucide-react';
+import { User as UserType, useStore } from '@/app/store/useStore';
+import ConnectionQualityBadge from './ConnectionQualityBadge';
+import { canChooseAudioOutput } from '@/app/hooks/useMediaDevices';
 
 interface VideoTileProps {
     user: UserType;
     isLocal?: boolean;
     className?: string;
+    // Reports the rendered size in device pixels, debounced, for adaptive sending
+    onRenderSize?: (socketId: string, width: number, height: number) => void;
 }
 
-export default function VideoTile({ user, isLocal = false, className }: VideoTileProps) {
+// Ignore resizes smaller than this many device pixels
+const SIZE_STEP = 16;
+const RESIZE_DEBOUNCE_MS = 500;
+
+export default function VideoTile({ user, isLocal = false, className, onRenderSize }: VideoTileProps) {
     
+    const tileRef = useRef<HTMLDivElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
     const audioRef = useRef<HTMLAudioElement>(null);
+    // Stats are keyed by the remote socket id, so the local tile never has any
+    const peerStats = useStore(state => state.peerStats.get(user.socketId));
+    const liveReactions = useStore(state => state.liveReactions);
+    const audioOutputId = useStore(state => state.preferredDevices.audioOutputId);
+    const reactions = liveReactions.filter(r => r.userId === user.id);
 const hasVideo = useMemo(() => {
     if (!user.stream) return false;
     
@@ -194,6 +208,36 @@ useEffect(() => {
         });
 }, [user.stream, isLocal])
 
+// Speaker picked in the lobby; an empty id is the system default
+useEffect(() => {
+    if (!audioRef.current || isLocal || !canChooseAudioOutput()) return;
+
+    audioRef.current.setSinkId(audioOutputId ?? '').catch(err => {
+        console.warn(`🔇 Could not switch speaker for ${user.userName}`, err);
+    });
+}, [audioOutputId, isLocal, user.userName]);
+
+useEffect(() => {
+    const tile = tileRef.current;
+    if (!tile || !onRenderSize) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new ResizeObserver(([entry]) => {
+        const ratio = window.devicePixelRatio || 1;
+        const width = Math.round(entry.contentRect.width * ratio / SIZE_STEP) * SIZE_STEP;
+        const height = Math.round(entry.contentRect.height * ratio / SIZE_STEP) * SIZE_STEP;
+
+        clearTimeout(timer);
+        timer = setTimeout(() => onRenderSize(user.socketId, width, height), RESIZE_DEBOUNCE_MS);
+    });
+
+    observer.observe(tile);
+    return () => {
+        clearTimeout(timer);
+        observer.disconnect();
+    };
+}, [onRenderSize, user.socketId]);
+
 useEffect(() => {
   return () => {
     // 🔴 RELEASE VIDEO
@@ -214,7 +258,7 @@ useEffect(() => {
     const displayName = isLocal ? `${user.userName} (You)` : user.userName;
 
     return (
-        <div className={cn(
+        <div ref={tileRef} className={cn(
             "relative bg-gray-900 rounded-xl overflow-hidden aspect-video group",
             isSpeaking && "ring-2 ring-green-500",
             className
@@ -286,6 +330,20 @@ useEffect(() => {
                                 Host
                             </span>
                         )}
+                        {user.role === 'co-host' && (
+                            <span className="text-xs bg-yellow-700/80 text-white px-2 py-1 rounded">
+                                Co-host
+                            </span>
+                        )}
+                        {user.handRaisedAt && (
+                            <span
+                                className="flex items-center gap-1 text-xs bg-amber-500 text-black font-medium px-2 py-1 rounded"
+                                title="Hand raised"
+                            >
+                                <Hand className="w-3 h-3" />
+                                Hand
+                            </span>
+                        )}
                     </div>
 
                     <div className="flex items-center gap-2">
@@ -332,6 +390,27 @@ useEffect(() => {
                     </div>
                 </div>
             )}
+
+            {/* Live reactions, spread out so bursts do not stack */}
+            <div className="absolute inset-0 pointer-events-none overflow-hidden">
+                {reactions.map(reaction => (
+                    <span
+                        key={reaction.id}
+                        className="absolute bottom-16 text-4xl animate-reaction-float"
+                        style={{ left: `${15 + parseInt(reaction.id.slice(0, 2), 16) % 70}%` }}
+                    >
+                        {reaction.emoji}
+                    </span>
+                ))}
+            </div>
+
+            {/* Remote connection quality */}
+            {!isLocal && (
+                <ConnectionQualityBadge
+                    stats={peerStats}
+                    className="absolute top-4 right-4 z-10"
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+
+// Meter readings below this are treated as silence
+const NOISE_FLOOR = 0.01;
+
+/**
+ * Live input level of a stream's first audio track, 0 (silent) to 1 (full scale).
+ * Stays at 0 while the track is disabled.
+ */
+export const useAudioLevel = (stream: MediaStream | null) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!stream || !track) return;
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let rafId: number;
+
+    const measure = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+      // Speech sits around 0.05-0.3 RMS; stretch that over most of the meter
+      setLevel(track.enabled && rms > NOISE_FLOOR ? Math.min(1, rms * 4) : 0);
+      rafId = requestAnimationFrame(measure);
+    };
+    measure();
+
+    return () => {
+      cancelAnimationFrame(rafId);
+      audioContext.close();
+      setLevel(0);
+    };
+  }, [stream]);
+
+  return level;
+};
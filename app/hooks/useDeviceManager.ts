@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import { localMedia } from "@/lib/localMedia";
+import { PreferredDevices, useStore } from "../store/useStore";
+import { useMediaDevices } from "./useMediaDevices";
+
+export type DeviceKind = keyof PreferredDevices;
+
+/**
+ * Camera, microphone and speaker choice during a call.
+ * The local media controller swaps the track on every peer's sender and falls
+ * back on its own when an input is unplugged; outputs are watched here.
+ */
+export const useDeviceManager = () => {
+  const devices = useMediaDevices();
+  const preferredDevices = useStore(state => state.preferredDevices);
+  const [error, setError] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const selectDevice = useCallback(async (kind: DeviceKind, deviceId?: string) => {
+    const { setPreferredDevices } = useStore.getState();
+    setError(null);
+
+    // Remote tiles pick up the speaker from the store
+    if (kind === "audioOutputId") {
+      setPreferredDevices({ audioOutputId: deviceId });
+      return;
+    }
+
+    setIsSwitching(true);
+    try {
+      await localMedia.switchDevice(kind === "audioInputId" ? "audio" : "video", deviceId);
+    } catch (error) {
+      console.error("Failed to switch device:", error);
+      setError(kind === "audioInputId" ? "Could not use that microphone." : "Could not use that camera.");
+    } finally {
+      setIsSwitching(false);
+    }
+  }, []);
+
+  // Outputs have no track to end, so a vanished speaker is spotted in the device list
+  useEffect(() => {
+    const { audioOutputId } = preferredDevices;
+    if (!audioOutputId || devices.audioOutputs.length === 0) return;
+
+    if (!devices.audioOutputs.some(device => device.deviceId === audioOutputId)) {
+      useStore.getState().setPreferredDevices({ audioOutputId: undefined });
+    }
+  }, [devices.audioOutputs, preferredDevices]);
+
+  return { ...devices, preferredDevices, selectDevice, isSwitching, error };
+};
+
+export type DeviceManager = ReturnType<typeof useDeviceManager>;
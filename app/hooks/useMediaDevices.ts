@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface MediaDeviceLists {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  // Empty where the browser cannot pick an output (no setSinkId)
+  audioOutputs: MediaDeviceInfo[];
+}
+
+const EMPTY: MediaDeviceLists = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+export const canChooseAudioOutput = () =>
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+const listDevices = async (): Promise<MediaDeviceLists> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return EMPTY;
+
+  // Some browsers list devices with empty ids before permission is granted
+  const usable = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.deviceId);
+  return {
+    audioInputs: usable.filter(d => d.kind === "audioinput"),
+    videoInputs: usable.filter(d => d.kind === "videoinput"),
+    audioOutputs: canChooseAudioOutput() ? usable.filter(d => d.kind === "audiooutput") : []
+  };
+};
+
+/**
+ * Cameras, microphones and speakers, kept current as devices come and go.
+ * Labels are blank until the page has been given media permission, so call
+ * `refresh` once a stream has been granted.
+ */
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY);
+
+  const refresh = useCallback(() => {
+    listDevices().then(setDevices).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    listDevices().then(setDevices).catch(console.error);
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { ...devices, refresh };
+};
@@ -1,19 +1,19 @@
-import { useCallback, useEffect, useState } from "react"
-import { useStore } from "../store/useStore";
+import { useCallback, useState, useSyncExternalStore } from "react"
+import { InputDevices, localMedia } from "@/lib/localMedia";
 
 export const useMediaStream = () => {
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const {localStream, setLocalStream, isVideoOn, isAudioOn} = useStore();
+    const { stream, hasCamera, hasMicrophone } =
+      useSyncExternalStore(localMedia.subscribe, localMedia.getSnapshot, localMedia.getSnapshot);
 
-    const getMediaStream = useCallback(async(constraints: MediaStreamConstraints) => {
+    // Devices not given keep the controller's current choice
+    const startCamera = useCallback(async (devices: InputDevices = {}) => {
          setIsLoading(true);
          setError(null);
 
          try {
-            const stream = await navigator.mediaDevices.getUserMedia(constraints);
-            setLocalStream(stream);
-            return stream;
+            return await localMedia.start(devices);
          } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Failed to access media devices.';
             setError(errorMessage);
@@ -29,44 +29,19 @@ export const useMediaStream = () => {
                 }
             }
             throw error
-          
+
          } finally {
             setIsLoading(false)
          }
-    }, [])
-
-
-    const startCamera = useCallback(async () => {
-    const constraints: MediaStreamConstraints = {
-      video: {
-        width: { ideal: 1280 },
-        height: { ideal: 720 },
-        frameRate: { ideal: 30, max: 60 },
-        facingMode: 'user'
-      },
-      audio: {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true
-      }
-    };
-
-    return getMediaStream(constraints);
-  }, [getMediaStream]);
-
-
-
-
-
-
+    }, []);
 
   return {
-    localStream,
+    localStream: stream,
     error,
     isLoading,
     startCamera,
- 
-    hasCamera: !!localStream?.getVideoTracks().length,
-    hasMicrophone: !!localStream?.getAudioTracks().length
+
+    hasCamera,
+    hasMicrophone
   }
-}
\ No newline at end of file
+}
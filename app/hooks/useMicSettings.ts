@@ -0,0 +1,23 @@
+import { useCallback } from "react";
+import { localMedia } from "@/lib/localMedia";
+import { micProcessor, MicSettings, needsMicProcessing } from "@/lib/audioProcessing";
+import { useStore } from "../store/useStore";
+
+/**
+ * Input gain, noise gate and push-to-talk for the microphone. Gain and gate are
+ * applied to the outgoing track, so peers hear the result; all of it stays
+ * chosen for later calls.
+ */
+export const useMicSettings = () => {
+  const settings = useStore(state => state.micSettings);
+
+  const applySettings = useCallback((next: MicSettings) => {
+    useStore.getState().setMicSettings(next);
+
+    // Untouched settings send the mic as it is, skipping Web Audio's extra latency
+    micProcessor.setSettings(next);
+    localMedia.setProcessor("audio", needsMicProcessing(next) ? micProcessor : null);
+  }, []);
+
+  return { settings, applySettings };
+};
@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import { useStore } from "../store/useStore";
+
+// Space in a text field or an editable element is typing, not talking
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * While push-to-talk is on, the mic stays muted except while the space bar is
+ * held. `setLocalAudio` is useRoom's, so each press and release goes out as a
+ * `toggle-audio` like a click on the mic button. Mount once per call.
+ */
+export const usePushToTalk = (setLocalAudio: (isOn: boolean) => void) => {
+  const isEnabled = useStore(state => state.micSettings.pushToTalk);
+  const isInRoom = useStore(state => !!state.currentRoom);
+
+  useEffect(() => {
+    if (!isEnabled || !isInRoom) return;
+
+    // Start from silence: talking is what the key is for
+    setLocalAudio(false);
+    let isHeld = false;
+
+    const release = () => {
+      if (!isHeld) return;
+      isHeld = false;
+      setLocalAudio(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTypingTarget(e.target)) return;
+      // Also stops a focused button from being clicked, and the page from scrolling
+      e.preventDefault();
+      if (e.repeat || isHeld) return;
+
+      isHeld = true;
+      setLocalAudio(true);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || !isHeld) return;
+      e.preventDefault();
+      release();
+    };
+
+    // Switching window mid-press would otherwise leave the mic open with no keyup to come
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", release);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", release);
+      release();
+    };
+  }, [isEnabled, isInRoom, setLocalAudio]);
+};
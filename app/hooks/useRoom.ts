@@ -1,6 +1,18 @@
 import { useCallback, useEffect, useRef } from "react";
 import { WebRTCManager, WebRTCEvent } from "@/lib/webrtc";
-import { socketService } from "@/lib/socket";
+import { localMedia } from "@/lib/localMedia";
+import {
+  ChatMessage,
+  ChatMessageFormat,
+  ChatReaction,
+  JoinOptions,
+  LiveReaction,
+  MediaKind,
+  MediaState,
+  ParticipantRole,
+  socketService
+} from "@/lib/socket";
+import { buildInviteUrl, rememberDisplayName, showRoomInAddressBar } from "@/lib/roomLinks";
 import { User, useStore } from "../store/useStore";
 
 declare global {
@@ -9,6 +21,59 @@ declare global {
   }
 }
 
+export interface ChatMessageOptions {
+  format?: ChatMessageFormat;
+  mentions?: ChatMessage["mentions"];
+  // User id to send a direct message to instead of the whole room
+  recipientId?: string;
+}
+
+// How long a live reaction floats over a tile
+const LIVE_REACTION_MS = 4000;
+
+const systemMessage = (message: string): ChatMessage => ({
+  id: crypto.randomUUID(),
+  userId: "system",
+  userName: "System",
+  message,
+  timestamp: new Date().toISOString(),
+  type: "system"
+});
+
+const showLiveReaction = (userId: string, emoji: LiveReaction) => {
+  const id = crypto.randomUUID();
+  useStore.getState().addLiveReaction({ id, userId, emoji });
+  setTimeout(() => useStore.getState().removeLiveReaction(id), LIVE_REACTION_MS);
+};
+
+// The "off" half of toggleLocalAudio / toggleLocalVideo, for when a host or co-host
+// turns our device off or the device itself fails; announcing it with `toggle-*`
+// keeps every client in step
+const turnOffLocalMedia = (kind: MediaKind) => {
+  const { currentUser, currentRoom } = useStore.getState();
+  if (!currentUser || !currentRoom) return;
+
+  if (kind === "audio") {
+    localMedia.setAudioEnabled(false);
+    socketService.toggleAudio(currentRoom.id, currentUser.id, false);
+  } else {
+    localMedia.setVideoEnabled(false).catch(console.error);
+    socketService.toggleVideo(currentRoom.id, currentUser.id, false);
+  }
+};
+
+// Mic and camera as chosen in the pre-join lobby, before the server hears of us
+const applyInitialMedia = ({ isAudioOn, isVideoOn }: MediaState) => {
+  localMedia.setAudioEnabled(isAudioOn);
+  localMedia.setVideoEnabled(isVideoOn).catch(console.error);
+};
+
+const ROLE_NAMES: Record<ParticipantRole, string> = {
+  host: "host",
+  "co-host": "a co-host",
+  participant: "a participant"
+};
+
 export const useRoom = () => {
   const webrtcManagerRef = useRef<WebRTCManager | null>(null);
   const activeStreamRef = useRef<MediaStream | null>(null);
@@ -18,19 +83,28 @@ export const useRoom = () => {
     localStream,
     isAudioOn,
     isVideoOn,
+    isScreenSharing,
+    handRaisedAt,
     isLoading,
-    setIsVideoOn,
-    setIsAudioOn,
-    setLocalStream,
+    setHandRaisedAt,
+    setUnmuteRequest,
+    setWaitingRoom,
+    setRoomLocked,
     setCurrentUser,
     setCurrentRoom,
     addParticipant,
     removeParticipant,
     updateParticipant,
+    addMessage,
+    mergeMessages,
+    updateMessage,
+    setHasMoreHistory,
+    upsertFileTransfer,
     setLoading,
     error,
     
     setError,
+    setPeerStats,
     resetRoom
   } = useStore();
 
@@ -70,6 +144,7 @@ export const useRoom = () => {
         id: user.userId,
         userName: user.userName,
         isHost: false,
+        role: user.role,
         isVideoOn: user.isVideoOn !== undefined ? user.isVideoOn : true,
         isAudioOn: user.isAudioOn !== undefined ? user.isAudioOn : true,
         isScreenSharing: false,
@@ -91,6 +166,7 @@ if (exists) {
 
     // Add to store
     addParticipant(user.userId, participantData);
+    addMessage(systemMessage(`${user.userName} joined the room`));
 
     // Check store state AFTER update
     setTimeout(() => {
@@ -113,8 +189,14 @@ if (exists) {
   });
 
   socketService.onUserLeft(({ userId, socketId }) => {
+    const leaving = useStore.getState().currentRoom?.participants.get(userId);
+    if (leaving) {
+      addMessage(systemMessage(`${leaving.userName} left the room`));
+    }
+
     removeParticipant(userId);
     if (webrtcManagerRef.current) {
+      webrtcManagerRef.current.setRemoteScreenStream(socketId, null);
       webrtcManagerRef.current.removePeer(socketId);
     }
   });
@@ -127,6 +209,181 @@ if (exists) {
     updateParticipant(userId, { isVideoOn: state });
   });
 
+  socketService.onHandChanged(({ userId, raisedAt }) => {
+    if (userId === useStore.getState().currentUser?.id) {
+      setHandRaisedAt(raisedAt);
+    } else {
+      updateParticipant(userId, { handRaisedAt: raisedAt ?? undefined });
+    }
+  });
+
+  socketService.onReaction(({ userId, emoji }) => {
+    showLiveReaction(userId, emoji);
+  });
+
+  /* -------------------------------- MODERATION ------------------------------- */
+
+  socketService.onMediaDisabled(({ kind, by }) => {
+    const { isAudioOn: audioOn, isVideoOn: videoOn } = useStore.getState();
+    if (kind === "audio" ? !audioOn : !videoOn) return;
+
+    turnOffLocalMedia(kind);
+    if (kind === "audio") setUnmuteRequest(null);
+    addMessage(systemMessage(kind === "audio" ? `${by} muted you` : `${by} turned off your camera`));
+  });
+
+  // Only a prompt: unmuting stays the participant's own decision
+  socketService.onUnmuteRequested(({ by }) => {
+    if (useStore.getState().isAudioOn) return;
+    setUnmuteRequest(by);
+  });
+
+  socketService.onRoleChanged(({ userId, role }) => {
+    const { currentUser: user, currentRoom: room } = useStore.getState();
+    const name = userId === user?.id ? "You are" : `${room?.participants.get(userId)?.userName ?? "Someone"} is`;
+
+    if (user && userId === user.id) {
+      setCurrentUser({ ...user, role });
+      // The waiting list is for hosts and co-hosts only
+      if (role === "participant") {
+        setWaitingRoom({ ...useStore.getState().waitingRoom, waiting: [] });
+      }
+    }
+    updateParticipant(userId, { role });
+    addMessage(systemMessage(`${name} now ${ROLE_NAMES[role]}`));
+  });
+
+  socketService.onHostChanged(({ hostId, previousHostId }) => {
+    const { currentUser: user, currentRoom: room } = useStore.getState();
+    const name = hostId === user?.id ? "You are" : `${room?.participants.get(hostId)?.userName ?? "Someone"} is`;
+
+    useStore.getState().setHost(hostId, previousHostId);
+    addMessage(systemMessage(`${name} now the host`));
+  });
+
+  socketService.onWaitingRoomUpdated((waitingRoom) => {
+    setWaitingRoom(waitingRoom);
+  });
+
+  socketService.onRoomLocked((isLocked) => {
+    setRoomLocked(isLocked);
+    addMessage(systemMessage(isLocked ? "The host locked the room" : "The host unlocked the room"));
+  });
+
+  // The server's copy is authoritative: it replaces a data-channel copy with the same
+  // id, so the timestamp and resolved mentions are always the server's
+  socketService.onChatMessage((message) => {
+    addMessage(message);
+    updateMessage(message);
+  });
+
+  socketService.onChatMessageUpdated((message) => {
+    updateMessage(message);
+  });
+
+  // Announced before the track arrives, so the manager can route it to the screen tile
+  socketService.onScreenShareStarted(({ userId, socketId, streamId }) => {
+    updateParticipant(userId, { isScreenSharing: true, screenStreamId: streamId });
+    webrtcManagerRef.current?.setRemoteScreenStream(socketId, streamId);
+  });
+
+  socketService.onScreenShareStopped(({ userId }) => {
+    const participant = useStore.getState().currentRoom?.participants.get(userId);
+    updateParticipant(userId, { isScreenSharing: false, screenStreamId: undefined, screenStream: undefined });
+    if (participant) {
+      webrtcManagerRef.current?.setRemoteScreenStream(participant.socketId, null);
+    }
+  });
+
+  /* ------------------------------ SESSION RESUME ----------------------------- */
+
+  // Another participant came back on a new socket: just re-key, media is still flowing
+  socketService.onUserResumed(({ userId, socketId, previousSocketId }) => {
+    updateParticipant(userId, { socketId });
+    webrtcManagerRef.current?.renamePeer(previousSocketId, socketId);
+  });
+
+  // We came back on a new socket: reconcile the room with what the server has now
+  socketService.onSessionResumed((res) => {
+    const { currentUser: user, currentRoom: room } = useStore.getState();
+    if (!user || !room) return;
+
+    setCurrentUser({ ...user, socketId: res.socketId, isHost: res.isHost, role: res.role });
+    // The host may have been replaced while we were away
+    setCurrentRoom({ id: room.id, hostId: res.hostId, isLocked: res.isLocked });
+    // Catch up on anything said while we were away
+    mergeMessages(res.chatHistory);
+
+    const manager = webrtcManagerRef.current;
+    const serverParticipants = new Map(res.participants.map(p => [p.userId, p]));
+
+    // Drop anyone who left while we were away
+    room.participants.forEach((p, id) => {
+      if (!serverParticipants.has(id)) {
+        removeParticipant(id);
+        manager?.removePeer(p.socketId);
+      }
+    });
+
+    res.participants.forEach((p) => {
+      if (p.userId === res.userId) {
+        updateParticipant(p.userId, { socketId: res.socketId, isHost: res.isHost, role: p.role });
+        setHandRaisedAt(p.handRaisedAt ?? null);
+        return;
+      }
+
+      const known = room.participants.get(p.userId);
+      if (!known) {
+        addParticipant(p.userId, {
+          id: p.userId,
+          userName: p.userName,
+          isHost: p.userId === res.hostId,
+          role: p.role,
+          isVideoOn: p.isVideoOn,
+          isAudioOn: p.isAudioOn,
+          isScreenSharing: !!p.isScreenSharing,
+          screenStreamId: p.screenStreamId,
+          handRaisedAt: p.handRaisedAt,
+          socketId: p.socketId
+        });
+      } else {
+        if (known.socketId !== p.socketId) {
+          manager?.renamePeer(known.socketId, p.socketId);
+        }
+        updateParticipant(p.userId, {
+          socketId: p.socketId,
+          isHost: p.userId === res.hostId,
+          role: p.role,
+          isVideoOn: p.isVideoOn,
+          isAudioOn: p.isAudioOn,
+          isScreenSharing: !!p.isScreenSharing,
+          screenStreamId: p.screenStreamId,
+          handRaisedAt: p.handRaisedAt,
+          ...(p.isScreenSharing ? {} : { screenStream: undefined })
+        });
+      }
+
+      manager?.setRemoteScreenStream(p.socketId, p.screenStreamId ?? null);
+
+      manager?.ensurePeer(p.socketId).catch((err) => {
+        console.error("Failed to renegotiate with", p.userName, err);
+      });
+    });
+  });
+
+  // A camera or mic that failed mid-call is announced the way a host turning it off is
+  localMedia.onDeviceLost(turnOffLocalMedia);
+
+  socketService.onSessionLost((reason) => {
+    localMedia.stop();
+    // Drops the singleton too: the next room needs a manager that knows its id
+    WebRTCManager.reset();
+    webrtcManagerRef.current = null;
+    window.webrtcManager = undefined;
+    resetRoom();
+    setError(`Connection lost (${reason}). Please join the room again.`);
+  });
+
   return () => {
     // ✅ ONLY disconnect socket here
   };
@@ -140,11 +397,8 @@ if (exists) {
 useEffect(() => {
   if (!currentUser || !currentRoom || !localStream) return;
 
-  // If manager exists, just update the stream
-  if (webrtcManagerRef.current) {
-    webrtcManagerRef.current.setLocalStream(localStream);
-    return;
-  }
+  // Once attached, the local media controller pushes its own track changes
+  if (webrtcManagerRef.current) return;
 
   console.log("🔥 Initializing WebRTCManager for", 
     currentUser.isHost ? "HOST" : "GUEST"
@@ -157,8 +411,8 @@ useEffect(() => {
       currentRoom.id
     );
 
-    // 2. Set local stream
-    webrtcManagerRef.current.setLocalStream(localStream);
+    // 2. Send our camera, mic and any screen share on this call
+    localMedia.attach(webrtcManagerRef.current);
 
     // 3. Setup event handler
 webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
@@ -202,6 +456,49 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
   });
 }
 
+  if (event.type === "screen") {
+    const participant = Array.from(useStore.getState().currentRoom?.participants.values() || [])
+      .find(p => p.socketId === event.peerId);
+
+    if (participant) {
+      updateParticipant(participant.id, { screenStream: event.stream ?? undefined });
+    }
+  }
+
+  // Trust the peer we received it from, not the names inside the message
+  if (event.type === "chat") {
+    const { currentRoom: room, currentUser: user } = useStore.getState();
+    const participant = Array.from(room?.participants.values() || [])
+      .find(p => p.socketId === event.peerId);
+
+    // A direct message we receive can only be addressed to us
+    const isMisaddressed = !!event.message.recipientId && event.message.recipientId !== user?.id;
+
+    if (participant && !isMisaddressed) {
+      // Edits, deletes and reactions only ever come from the server, and so do
+      // mentions and the timestamp until its copy replaces this one
+      addMessage({
+        ...event.message,
+        userId: participant.id,
+        userName: participant.userName,
+        type: "text",
+        timestamp: new Date().toISOString(),
+        mentions: undefined,
+        reactions: undefined,
+        editedAt: undefined,
+        deletedAt: undefined
+      });
+    }
+  }
+
+  if (event.type === "file") {
+    upsertFileTransfer(event.transfer);
+  }
+
+  if (event.type === "stats") {
+    setPeerStats(event.stats);
+  }
+
 });
 
 
@@ -209,6 +506,13 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
   /*                          GUEST → CREATE OFFERS                              */
   /* -------------------------------------------------------------------------- */
 
+    // Anyone already sharing when we joined: their screen track arrives with the first offer
+    currentRoom.participants.forEach((p) => {
+      if (p.screenStreamId) {
+        webrtcManagerRef.current?.setRemoteScreenStream(p.socketId, p.screenStreamId);
+      }
+    });
+
     // 4. GUEST-SPECIFIC: Create offers to existing participants
     if (!currentUser.isHost) {
       console.log("🎯 Guest: Creating WebRTC offers");
@@ -244,10 +548,11 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
   /*                              CREATE ROOM                                    */
   /* -------------------------------------------------------------------------- */
 
- const createRoom = useCallback(async (userName: string, roomId: string) => {
+ const createRoom = useCallback(async (userName: string, roomId: string, media: MediaState = { isAudioOn: true, isVideoOn: true }) => {
     setLoading(true);
     try {
-        const res = await socketService.createRoom(userName, roomId);
+        applyInitialMedia(media);
+        const res = await socketService.createRoom(userName, roomId, media);
 
         // Create participants Map with just the host
         const participantsMap = new Map<string, User>();
@@ -255,8 +560,9 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
             id: res.userId,
             userName,
             isHost: true,
-            isVideoOn: true,
-            isAudioOn: true,
+            role: res.role,
+            isVideoOn: media.isVideoOn,
+            isAudioOn: media.isAudioOn,
             isScreenSharing: false,
             socketId: socketService.getSocketId()!
         });
@@ -265,6 +571,7 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
             id: res.userId,
             userName,
             isHost: true,
+            role: res.role,
             socketId: socketService.getSocketId()!
         });
 
@@ -272,8 +579,14 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
         setCurrentRoom({
             id: res.roomId,
             hostId: res.userId,
+            isLocked: res.isLocked,
             participants: participantsMap
         });
+        mergeMessages(res.chatHistory);
+        setHasMoreHistory(res.hasMoreHistory);
+        setWaitingRoom({ isEnabled: res.isWaitingRoomEnabled, waiting: [] });
+        showRoomInAddressBar(res.roomId);
+        rememberDisplayName(userName);
 
         return res;
     } finally {
@@ -284,10 +597,17 @@ webrtcManagerRef.current.onEvent((event: WebRTCEvent) => {
   /*                               JOIN ROOM                                     */
   /* -------------------------------------------------------------------------- */
 
-const joinRoom = useCallback(async (roomId: string, userName: string, password?: string) => {
+// `onWaiting` runs if the room has a waiting room; the promise settles once a host decides
+const joinRoom = useCallback(async (
+    roomId: string,
+    userName: string,
+    options: JoinOptions = {},
+    onWaiting?: () => void
+) => {
     setLoading(true);
     try {
-        const res = await socketService.joinRoom(roomId, userName, password);
+        if (options.media) applyInitialMedia(options.media);
+        const res = await socketService.joinRoom(roomId, userName, options, onWaiting);
 
         // Create participants Map from server response
         const participantsMap = new Map<string, User>();
@@ -299,9 +619,12 @@ const joinRoom = useCallback(async (roomId: string, userName: string, password?:
                 id: p.userId,
                 userName: p.userName,
                 isHost: p.userId === res.hostId,
+                role: p.role,
                 isVideoOn: p.isVideoOn !== undefined ? p.isVideoOn : true,
                 isAudioOn: p.isAudioOn !== undefined ? p.isAudioOn : true,
-                isScreenSharing: false,
+                isScreenSharing: !!p.isScreenSharing,
+                screenStreamId: p.screenStreamId,
+                handRaisedAt: p.handRaisedAt,
                 socketId: p.socketId  // ⚠️ CRITICAL
             });
         });
@@ -310,6 +633,7 @@ const joinRoom = useCallback(async (roomId: string, userName: string, password?:
             id: res.userId,
             userName,
             isHost: false,
+            role: res.role,
             socketId: socketService.getSocketId()!
         });
 
@@ -317,9 +641,17 @@ const joinRoom = useCallback(async (roomId: string, userName: string, password?:
         setCurrentRoom({
             id: res.roomId,
             hostId: res.hostId,
+            isLocked: res.isLocked,
             participants: participantsMap  // ⚠️ Pass the participants Map
         });
 
+        // Earlier conversation, for anyone joining mid-meeting
+        mergeMessages(res.chatHistory);
+        setHasMoreHistory(res.hasMoreHistory);
+        setWaitingRoom({ isEnabled: res.isWaitingRoomEnabled, waiting: [] });
+        showRoomInAddressBar(res.roomId);
+        rememberDisplayName(userName);
+
         console.log("✅ Joined room with participants:", Array.from(participantsMap.values()).map(p => p.userName));
 
         return res;
@@ -328,120 +660,292 @@ const joinRoom = useCallback(async (roomId: string, userName: string, password?:
     }
 }, []);
 
+// Gives up on a join still waiting to be admitted; joinRoom() then rejects
+const leaveWaitingRoom = useCallback(() => {
+  socketService.leaveWaitingRoom();
+}, []);
+
   /* -------------------------------------------------------------------------- */
   /*                               MEDIA CONTROLS                                */
   /* -------------------------------------------------------------------------- */
 
 const toggleLocalVideo = useCallback(async () => {
-  if (!currentUser || !currentRoom || !localStream) return;
-  console.log("React stream:", localStream?.id);
-  console.log("Manager stream:", webrtcManagerRef.current);
+  if (!currentUser || !currentRoom) return;
+
+  try {
+    // Off stops the camera track, so the device is released and its light goes out
+    await localMedia.setVideoEnabled(!isVideoOn);
+    socketService.toggleVideo(currentRoom.id, currentUser.id, !isVideoOn);
+  } catch (err) {
+    console.error("toggleLocalVideo failed:", err);
+    setError("Failed to toggle camera");
+  }
+}, [isVideoOn, currentUser, currentRoom, setError]);
 
+// Reads the store directly: push-to-talk calls it from key handlers that outlive renders
+const setLocalAudio = useCallback((isOn: boolean) => {
+  const { currentUser: user, currentRoom: room, isAudioOn: audioOn } = useStore.getState();
+  if (!user || !room || audioOn === isOn || !localMedia.getSnapshot().hasMicrophone) return;
 
+  localMedia.setAudioEnabled(isOn);
+  // Answers any pending request from a host
+  if (isOn) setUnmuteRequest(null);
 
-  const videoTrack = localStream.getVideoTracks()[0];
+  socketService.toggleAudio(room.id, user.id, isOn);
+}, [setUnmuteRequest]);
+
+const toggleLocalAudio = useCallback(() => {
+  setLocalAudio(!isAudioOn);
+}, [isAudioOn, setLocalAudio]);
+
+
+  /* -------------------------------------------------------------------------- */
+  /*                               SCREEN SHARING                                */
+  /* -------------------------------------------------------------------------- */
+
+// Reads the store directly: it also runs when the browser's own "Stop sharing" bar
+// is used, long after this render's values are stale
+const stopScreenShare = useCallback(() => {
+  const { currentUser: user, currentRoom: room, screenStream } = useStore.getState();
+  if (!screenStream) return;
+
+  localMedia.stopScreenShare();
+  if (user && room) {
+    socketService.stopScreenShare(room.id, user.id);
+  }
+}, []);
+
+const startScreenShare = useCallback(async () => {
+  if (!currentUser || !currentRoom || isScreenSharing) return;
 
   try {
-    /* =======================
-       TURN CAMERA OFF
-    ======================= */
-    if (isVideoOn) {
-      console.log("🔌 Turning camera off");
-      if (videoTrack) {
-        videoTrack.enabled = false;
-        setIsVideoOn(false);
-      }
+    // The browser shows its own monitor / window / tab picker
+    await localMedia.startScreenShare({
+      onStarted: (stream) => socketService.startScreenShare(currentRoom.id, currentUser.id, stream.id),
+      // The controller has already let go of the track
+      onEnded: () => socketService.stopScreenShare(currentRoom.id, currentUser.id)
+    });
+  } catch (err) {
+    // Closing the picker is not an error
+    if (err instanceof DOMException && err.name === "NotAllowedError") return;
 
-      socketService.toggleVideo(
-        currentRoom.id,
-        currentUser.id,
-        false
-      );
+    console.error("startScreenShare failed:", err);
+    setError("Failed to share screen");
+  }
+}, [currentUser, currentRoom, isScreenSharing, setError]);
 
-      console.log("🔌 Camera turned off", isVideoOn, videoTrack);
+  /* -------------------------------------------------------------------------- */
+  /*                          RAISE HAND AND REACTIONS                           */
+  /* -------------------------------------------------------------------------- */
 
-      return;
-    }
+const toggleHand = useCallback(() => {
+  if (!currentUser || !currentRoom) return;
 
-    /* =======================
-       TURN CAMERA ON
-    ======================= */
-    // Case 1: Track exists and is live → just enable
-    if (videoTrack && videoTrack.readyState === "live") {
-      console.log("🔌 Turning camera on");
-      videoTrack.enabled = true;
-      setIsVideoOn(true);
-    }
-    // Case 2: Track missing or stopped → recreate
-    else {
-      console.log("🔌 Creating new camera track");
-      const newStream = await navigator.mediaDevices.getUserMedia({
-        video: true
-      });
+  const raised = handRaisedAt === null;
+  // The server answers with `hand-changed` carrying the authoritative queue time
+  setHandRaisedAt(raised ? Date.now() : null);
+  socketService.raiseHand(currentRoom.id, currentUser.id, raised);
+}, [currentUser, currentRoom, handRaisedAt, setHandRaisedAt]);
 
-      const newTrack = newStream.getVideoTracks()[0];
+// Hosts only; the server ignores anyone else
+const lowerHand = useCallback((userId: string) => {
+  if (!currentRoom) return;
+  socketService.lowerHand(currentRoom.id, userId);
+}, [currentRoom]);
 
-      // Remove old tracks (if any)
-      localStream.getVideoTracks().forEach(t => {
-        localStream.removeTrack(t);
-        t.stop();
-      });
+const sendReaction = useCallback((emoji: LiveReaction) => {
+  if (!currentUser || !currentRoom) return;
 
-      // Add new track to SAME stream
-      localStream.addTrack(newTrack);
+  showLiveReaction(currentUser.id, emoji);
+  socketService.sendReaction(currentRoom.id, emoji);
+}, [currentUser, currentRoom]);
 
-      // 🔥 THIS IS CRITICAL
-      webrtcManagerRef.current?.replaceTrack("video", newTrack);
-    }
+  /* -------------------------------------------------------------------------- */
+  /*                                 MODERATION                                  */
+  /* -------------------------------------------------------------------------- */
 
+// Hosts and co-hosts only; the server checks the roles again and ignores anyone else
+const disableParticipantMedia = useCallback((userId: string, kind: MediaKind) => {
+  if (!currentRoom) return;
+  socketService.disableParticipantMedia(currentRoom.id, userId, kind);
+}, [currentRoom]);
+
+const muteAll = useCallback(() => {
+  if (!currentRoom) return;
+  socketService.muteAll(currentRoom.id);
+}, [currentRoom]);
+
+const requestUnmute = useCallback((userId: string) => {
+  if (!currentRoom) return;
+  socketService.requestUnmute(currentRoom.id, userId);
+}, [currentRoom]);
+
+const removeParticipantFromRoom = useCallback((userId: string) => {
+  if (!currentRoom) return;
+  socketService.kickUser(currentRoom.id, userId);
+}, [currentRoom]);
+
+const setWaitingRoomEnabled = useCallback((enabled: boolean) => {
+  if (!currentRoom) return;
+  socketService.setWaitingRoom(currentRoom.id, enabled);
+}, [currentRoom]);
+
+const admitParticipant = useCallback((requestId: string) => {
+  if (!currentRoom) return;
+  socketService.admitParticipant(currentRoom.id, requestId);
+}, [currentRoom]);
+
+const denyParticipant = useCallback((requestId: string) => {
+  if (!currentRoom) return;
+  socketService.denyParticipant(currentRoom.id, requestId);
+}, [currentRoom]);
+
+const admitAll = useCallback(() => {
+  if (!currentRoom) return;
+  socketService.admitAll(currentRoom.id);
+}, [currentRoom]);
+
+// Host only; joiners then need the password
+const lockRoom = useCallback((password: string) => {
+  if (!currentRoom) return;
+  socketService.lockRoom(currentRoom.id, password);
+}, [currentRoom]);
+
+// Host only
+const unlockRoom = useCallback(() => {
+  if (!currentRoom) return;
+  socketService.unlockRoom(currentRoom.id);
+}, [currentRoom]);
+
+// A link anyone can use; into a locked room it carries a one-time token,
+// which only hosts and co-hosts can get
+const createInviteLink = useCallback(async () => {
+  const { currentRoom: room, currentUser: user } = useStore.getState();
+  if (!room) throw new Error("Not in a room");
+  if (!room.isLocked || user?.role === "participant") return buildInviteUrl(room.id);
+
+  const { token } = await socketService.createInvite(room.id);
+  return buildInviteUrl(room.id, token);
+}, []);
 
-    console.log("🔌 Camera turned on", isVideoOn, videoTrack);
+// Host only; we stay on as a co-host
+const transferHost = useCallback((userId: string) => {
+  if (!currentRoom) return;
+  socketService.transferHost(currentRoom.id, userId);
+}, [currentRoom]);
 
-    socketService.toggleVideo(
-      currentRoom.id,
-      currentUser.id,
-      true
-    );
+// Host only
+const setParticipantRole = useCallback((userId: string, role: Exclude<ParticipantRole, "host">) => {
+  if (!currentRoom) return;
+  socketService.setRole(currentRoom.id, userId, role);
+}, [currentRoom]);
 
-  } catch (err) {
-    console.error("toggleLocalVideo failed:", err);
-    setError("Failed to toggle camera");
+  /* -------------------------------------------------------------------------- */
+  /*                                    CHAT                                     */
+  /* -------------------------------------------------------------------------- */
+
+const sendChatMessage = useCallback((text: string, { format, mentions, recipientId }: ChatMessageOptions = {}) => {
+  const message = text.trim();
+  if (!message || !currentUser || !currentRoom) return;
+
+  const recipient = recipientId ? currentRoom.participants.get(recipientId) : undefined;
+  if (recipientId && !recipient) {
+    setError("That participant has left the room");
+    return;
   }
-}, [localStream, isVideoOn, currentUser, currentRoom]);
 
+  const chatMessage: ChatMessage = {
+    id: crypto.randomUUID(),
+    userId: currentUser.id,
+    userName: currentUser.userName,
+    message,
+    timestamp: new Date().toISOString(),
+    type: "text",
+    format,
+    mentions,
+    recipientId
+  };
 
+  // Shown right away; the server's copy carries the same id and takes its place
+  addMessage(chatMessage);
+  webrtcManagerRef.current?.sendChatMessage(chatMessage, recipient?.socketId);
+  socketService.sendChatMessage(currentRoom.id, currentUser.id, currentUser.userName, message, {
+    id: chatMessage.id,
+    format,
+    mentions: mentions?.map(m => m.userId),
+    recipientId
+  });
+}, [currentUser, currentRoom, addMessage, setError]);
 
+// Edits, deletes and reactions wait for the server's `chat-message-updated`
+const editChatMessage = useCallback((messageId: string, text: string, { format, mentions }: ChatMessageOptions = {}) => {
+  const message = text.trim();
+  if (!message || !currentRoom) return;
 
-const toggleLocalAudio = useCallback(() => {
-  if (!localStream || !currentUser || !currentRoom) return;
+  socketService.editChatMessage(currentRoom.id, messageId, message, {
+    format,
+    mentions: mentions?.map(m => m.userId)
+  });
+}, [currentRoom]);
 
-  const audioTrack = localStream.getAudioTracks()[0];
-  if (!audioTrack) return;
+const deleteChatMessage = useCallback((messageId: string) => {
+  if (!currentRoom) return;
+  socketService.deleteChatMessage(currentRoom.id, messageId);
+}, [currentRoom]);
 
-  // 🔴 TURN MIC OFF
-  if (isAudioOn) {
-    audioTrack.enabled = false;
-    setIsAudioOn(false); // ✅ CRITICAL
+const toggleChatReaction = useCallback((messageId: string, emoji: ChatReaction) => {
+  if (!currentRoom) return;
+  socketService.toggleChatReaction(currentRoom.id, messageId, emoji);
+}, [currentRoom]);
 
-    socketService.toggleAudio(
-      currentRoom.id,
-      currentUser.id,
-      false
-    );
+const loadOlderMessages = useCallback(async () => {
+  if (!currentRoom) return;
+
+  // System messages are local only, so page from the oldest message the server knows
+  const oldest = useStore.getState().messages.find(m => m.type === "text");
+
+  try {
+    const { messages, hasMore } = await socketService.getChatHistory(currentRoom.id, oldest?.id);
+    mergeMessages(messages);
+    setHasMoreHistory(hasMore);
+  } catch (err) {
+    console.error("Failed to load chat history:", err);
+    setError("Could not load earlier messages");
+  }
+}, [currentRoom, mergeMessages, setHasMoreHistory, setError]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                               FILE TRANSFER                                 */
+  /* -------------------------------------------------------------------------- */
+
+const sendFile = useCallback(async (file: File) => {
+  const manager = webrtcManagerRef.current;
+  if (!manager) return;
+
+  if (manager.getAllPeers().size === 0) {
+    setError("No one else is connected to receive the file");
     return;
   }
 
-  // 🟢 TURN MIC ON
-  audioTrack.enabled = true;
-  setIsAudioOn(true); // ✅ CRITICAL
+  try {
+    await manager.sendFile(file);
+  } catch (err) {
+    console.error("sendFile failed:", err);
+    setError(err instanceof Error ? err.message : "Failed to send file");
+  }
+}, [setError]);
 
-  socketService.toggleAudio(
-    currentRoom.id,
-    currentUser.id,
-    true
-  );
-}, [localStream, isAudioOn, currentUser, currentRoom]);
+const acceptFile = useCallback((transferId: string) => {
+  webrtcManagerRef.current?.acceptFile(transferId);
+}, []);
 
+const pauseFile = useCallback((transferId: string) => {
+  webrtcManagerRef.current?.pauseFile(transferId);
+}, []);
+
+const cancelFile = useCallback((transferId: string) => {
+  webrtcManagerRef.current?.cancelFile(transferId);
+}, []);
 
   /* -------------------------------------------------------------------------- */
   /*                                LEAVE ROOM                                   */
@@ -453,21 +957,17 @@ const leaveRoom = useCallback(() => {
   }
 
   // 🔴 STOP tracks
-  if (localStream) {
-    localStream.getTracks().forEach(track => track.stop());
-  }
+  localMedia.stop();
 
-  // 🔴 FULL WebRTC cleanup
-  webrtcManagerRef.current?.cleanup();
+  // 🔴 FULL WebRTC cleanup, singleton included, so the next room gets its own manager
+  WebRTCManager.reset();
   webrtcManagerRef.current = null;
   window.webrtcManager = undefined;
 
-  // 🔴 CLEAR stream from store
-  setLocalStream(null);
-
   // 🔴 RESET room
   resetRoom();
-}, [currentUser, currentRoom, localStream]);
+  showRoomInAddressBar(null);
+}, [currentUser, currentRoom]);
 
 
 
@@ -478,14 +978,44 @@ const leaveRoom = useCallback(() => {
     localStream,
     isVideoOn,
     isAudioOn,
+    isScreenSharing,
+    handRaisedAt,
     isLoading,
     createRoom,
     joinRoom,
+    leaveWaitingRoom,
     leaveRoom,
-    setLocalStream,
     error,
     setError,
     toggleLocalVideo,
-    toggleLocalAudio
+    setLocalAudio,
+    toggleLocalAudio,
+    startScreenShare,
+    stopScreenShare,
+    toggleHand,
+    lowerHand,
+    sendReaction,
+    disableParticipantMedia,
+    muteAll,
+    requestUnmute,
+    removeParticipantFromRoom,
+    transferHost,
+    setParticipantRole,
+    setWaitingRoomEnabled,
+    admitParticipant,
+    denyParticipant,
+    admitAll,
+    lockRoom,
+    unlockRoom,
+    createInviteLink,
+    sendChatMessage,
+    editChatMessage,
+    deleteChatMessage,
+    toggleChatReaction,
+    loadOlderMessages,
+    sendFile,
+    acceptFile,
+    pauseFile,
+    cancelFile
   };
 };
@@ -0,0 +1,47 @@
+import { useCallback, useState } from "react";
+import { localMedia } from "@/lib/localMedia";
+import { hasVideoEffects, VideoEffects, videoEffects } from "@/lib/videoEffects";
+import { useStore } from "../store/useStore";
+
+// Uploaded backgrounds are object URLs; let go of one once something else replaces it
+const releaseUpload = (previous: VideoEffects, next: VideoEffects) => {
+  const { background } = previous;
+  if (background.type !== "image" || !background.src.startsWith("blob:")) return;
+  if (next.background.type === "image" && next.background.src === background.src) return;
+
+  URL.revokeObjectURL(background.src);
+};
+
+/**
+ * Background and lighting effects for the camera. They are applied to the
+ * outgoing track, so peers and the self-view see the same picture, and stay
+ * chosen for later calls.
+ */
+export const useVideoEffects = () => {
+  const effects = useStore(state => state.videoEffects);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyEffects = useCallback(async (next: VideoEffects) => {
+    const { videoEffects: previous, setVideoEffects } = useStore.getState();
+    releaseUpload(previous, next);
+    setVideoEffects(next);
+    setError(null);
+
+    // The processor picks up the new effects before the controller hands it the camera
+    const loading = videoEffects.setEffects(next);
+    localMedia.setProcessor("video", hasVideoEffects(next) ? videoEffects : null);
+
+    setIsLoading(true);
+    try {
+      await loading;
+    } catch (error) {
+      console.error("Failed to load video effects:", error);
+      setError(next.background.type === "image" ? "Could not load that background." : "Could not load background effects.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { effects, applyEffects, isLoading, error };
+};
@@ -0,0 +1,24 @@
+// frontend/src/app/room/[roomId]/page.tsx
+import { cookies } from 'next/headers';
+import ConferenceApp from '@/app/components/room/ConferenceApp';
+import { DISPLAY_NAME_COOKIE, INVITE_PARAM } from '@/lib/roomLinks';
+
+interface RoomPageProps {
+  params: Promise<{ roomId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Invite links land here: with the name used last time remembered, straight into the lobby
+export default async function RoomPage({ params, searchParams }: RoomPageProps) {
+  const { roomId } = await params;
+  const invite = (await searchParams)[INVITE_PARAM];
+  const userName = (await cookies()).get(DISPLAY_NAME_COOKIE)?.value;
+
+  return (
+    <ConferenceApp
+      roomId={roomId.toUpperCase()}
+      userName={userName}
+      inviteToken={typeof invite === 'string' ? invite : undefined}
+    />
+  );
+}
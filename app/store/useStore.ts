@@ -1,20 +1,54 @@
 // frontend/src/store/useStore.ts
 import { create } from 'zustand';
-import { Participant, ChatMessage } from '@/lib/socket';
+import { Participant, ChatMessage, LiveReaction, ParticipantRole, WaitingRoomPayload } from '@/lib/socket';
+import { PeerStats } from '@/lib/stats';
+import { FileTransfer } from '@/lib/fileTransfer';
+import { localMedia } from '@/lib/localMedia';
+import { DEFAULT_VIDEO_EFFECTS, VideoEffects } from '@/lib/videoEffects';
+import { DEFAULT_MIC_SETTINGS, MicSettings } from '@/lib/audioProcessing';
 
 export interface User {
   id: string;
   userName: string;
 
   isHost: boolean;
+  role: ParticipantRole;
   isVideoOn: boolean;
   isAudioOn: boolean;
 
   isScreenSharing: boolean;
   stream?: MediaStream;
+  // Remote screen share, separate from the camera stream
+  screenStreamId?: string;
+  screenStream?: MediaStream;
+  // Epoch ms the hand went up, for queue order; unset while lowered
+  handRaisedAt?: number;
   socketId: string;
 }
 
+// A live reaction currently floating over someone's tile
+export interface FloatingReaction {
+  id: string;
+  userId: string;
+  emoji: LiveReaction;
+}
+
+// Device ids picked by the user; unset means the browser's default device
+export interface PreferredDevices {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+/**
+ * The conversation a message belongs to: null for the room,
+ * otherwise the user id of the other person in a direct message.
+ */
+export function conversationOf(message: ChatMessage, currentUserId?: string): string | null {
+  if (!message.recipientId) return null;
+  return message.userId === currentUserId ? message.recipientId : message.userId;
+}
+
 export interface Room {
   id: string;
   name?: string;
@@ -30,6 +64,7 @@ interface AppState {
     userName: string;
     socketId: string;
     isHost: boolean;
+    role: ParticipantRole;
   } | null;
 
   // Room state
@@ -40,42 +75,73 @@ interface AppState {
     hostId: string;
   } | null;
 
-  // Media state
+  // Media state, mirrored from the local media controller (lib/localMedia.ts)
   localStream: MediaStream | null;
   screenStream: MediaStream | null;
   isVideoOn: boolean;
   isAudioOn: boolean;
+  // Kept across rooms
+  preferredDevices: PreferredDevices;
+  videoEffects: VideoEffects;
+  micSettings: MicSettings;
 
   isScreenSharing: boolean;
+  handRaisedAt: number | null;
+  liveReactions: FloatingReaction[];
+  // Name of the host or co-host asking us to unmute, until answered
+  unmuteRequest: string | null;
+  // Only filled in for hosts and co-hosts
+  waitingRoom: WaitingRoomPayload;
 
   // Chat state
   messages: ChatMessage[];
+  isChatOpen: boolean;
+  unreadCount: number;
+  // Tab shown in the chat panel: null for the room, or a direct message partner's user id
+  chatConversation: string | null;
+  // Direct message partners with messages not seen yet
+  unreadConversations: Set<string>;
+  hasMoreHistory: boolean;
+  // Peer-to-peer file transfers shown in the chat panel, by transfer id
+  fileTransfers: Map<string, FileTransfer>;
+
+  // Connection stats, keyed by the remote peer's socket id
+  peerStats: Map<string, PeerStats>;
 
   // UI state
   isLoading: boolean;
   error: string | null;
 
   // Actions
-  setCurrentUser: (user: { id: string; userName: string; isHost: boolean; socketId: string }) => void;
+  setCurrentUser: (user: { id: string; userName: string; isHost: boolean; role: ParticipantRole; socketId: string }) => void;
     setCurrentRoom: (room: { 
     id: string; 
     hostId: string; 
     isLocked?: boolean;
     participants?: Map<string, User>;  // Add this
   }) => void;
-  setLocalStream: (stream: MediaStream | null) => void;
-  setScreenStream: (stream: MediaStream | null) => void;
-  toggleVideo: () => void;
-  toggleAudio: () => void;
-    setIsVideoOn: (value: boolean) => void;
-  setIsAudioOn: (value: boolean) => void;
-  
-  toggleScreenShare: () => void;
+  setPreferredDevices: (devices: PreferredDevices) => void;
+  setVideoEffects: (effects: VideoEffects) => void;
+  setMicSettings: (settings: MicSettings) => void;
+  setHandRaisedAt: (value: number | null) => void;
+  addLiveReaction: (reaction: FloatingReaction) => void;
+  removeLiveReaction: (id: string) => void;
+  setUnmuteRequest: (by: string | null) => void;
+  setWaitingRoom: (waitingRoom: WaitingRoomPayload) => void;
+  setRoomLocked: (isLocked: boolean) => void;
   addParticipant: (userId: string, user: User) => void;
   removeParticipant: (userId: string) => void;
   updateParticipant: (userId: string, updates: Partial<User>) => void;
+  setHost: (hostId: string, previousHostId: string) => void;
   addMessage: (message: ChatMessage) => void;
+  mergeMessages: (messages: ChatMessage[]) => void;
+  updateMessage: (message: ChatMessage) => void;
+  setHasMoreHistory: (value: boolean) => void;
   clearMessages: () => void;
+  setChatOpen: (open: boolean) => void;
+  setChatConversation: (conversation: string | null) => void;
+  upsertFileTransfer: (transfer: FileTransfer) => void;
+  setPeerStats: (stats: Map<string, PeerStats>) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   resetRoom: () => void;
@@ -89,14 +155,26 @@ export const useStore = create<AppState>((set) => ({
   screenStream: null,
   isVideoOn: true,
   isAudioOn: true,
+  preferredDevices: {},
+  videoEffects: DEFAULT_VIDEO_EFFECTS,
+  micSettings: DEFAULT_MIC_SETTINGS,
 
   isScreenSharing: false,
+  handRaisedAt: null,
+  liveReactions: [],
+  unmuteRequest: null,
+  waitingRoom: { isEnabled: false, waiting: [] },
   messages: [],
+  isChatOpen: false,
+  unreadCount: 0,
+  chatConversation: null,
+  unreadConversations: new Set(),
+  hasMoreHistory: false,
+  fileTransfers: new Map(),
+  peerStats: new Map(),
   isLoading: false,
   error: null,
   // --------------------
-  setIsVideoOn: (value) => set({ isVideoOn: value }),
-  setIsAudioOn: (value) => set({ isAudioOn: value }),
   setCurrentUser: (user) => set({ currentUser: user }),
 setCurrentRoom: (room) => set((state) => ({
     currentRoom: {
@@ -108,23 +186,28 @@ setCurrentRoom: (room) => set((state) => ({
     }
 })),
 
-  setLocalStream: (stream) => set({ localStream: stream }),
-  setScreenStream: (stream) => set({ screenStream: stream }),
+  setPreferredDevices: (devices) => set((state) => ({
+    preferredDevices: { ...state.preferredDevices, ...devices }
+  })),
+  setVideoEffects: (effects) => set({ videoEffects: effects }),
+  setMicSettings: (settings) => set({ micSettings: settings }),
 
-  toggleVideo: () => set((state) => ({
-    
-    isVideoOn: !state.isVideoOn,
-    currentUser: state.currentUser ? { ...state.currentUser } : null,
-    
+  setHandRaisedAt: (value) => set({ handRaisedAt: value }),
+
+  addLiveReaction: (reaction) => set((state) => ({
+    liveReactions: [...state.liveReactions, reaction]
   })),
 
-  toggleAudio: () => set((state) => ({
-    isAudioOn: !state.isAudioOn,
-    currentUser: state.currentUser ? { ...state.currentUser } : null
+  removeLiveReaction: (id) => set((state) => ({
+    liveReactions: state.liveReactions.filter(r => r.id !== id)
   })),
 
-  toggleScreenShare: () => set((state) => ({
-    isScreenSharing: !state.isScreenSharing
+  setUnmuteRequest: (by) => set({ unmuteRequest: by }),
+
+  setWaitingRoom: (waitingRoom) => set({ waitingRoom }),
+
+  setRoomLocked: (isLocked) => set((state) => ({
+    currentRoom: state.currentRoom ? { ...state.currentRoom, isLocked } : null
   })),
 
  addParticipant: (userId, user) => set((state) => {
@@ -189,6 +272,25 @@ setCurrentRoom: (room) => set((state) => ({
   }),
 
 
+  // The previous host, if still here, stays on as a co-host
+  setHost: (hostId, previousHostId) => set((state) => {
+    if (!state.currentRoom) return state;
+
+    const participants = new Map(state.currentRoom.participants);
+    const host = participants.get(hostId);
+    const previousHost = participants.get(previousHostId);
+    if (host) participants.set(hostId, { ...host, isHost: true, role: 'host' });
+    if (previousHost) participants.set(previousHostId, { ...previousHost, isHost: false, role: 'co-host' });
+
+    const user = state.currentUser;
+    return {
+      currentRoom: { ...state.currentRoom, hostId, participants },
+      currentUser: user && (user.id === hostId || user.id === previousHostId)
+        ? { ...user, isHost: user.id === hostId, role: user.id === hostId ? 'host' : 'co-host' }
+        : user
+    };
+  }),
+
   removeParticipant: (userId) => set((state) => {
     if (!state.currentRoom) return state;
 
@@ -203,24 +305,110 @@ setCurrentRoom: (room) => set((state) => ({
     };
   }),
 
-  addMessage: (message) => set((state) => ({
-    messages: [...state.messages, message]
-  })),
+  // The same message can arrive over the socket relay and a data channel
+  addMessage: (message) => set((state) => {
+    if (state.messages.some(m => m.id === message.id)) return state;
+
+    const isFromOther = message.type === 'text' && message.userId !== state.currentUser?.id;
+    const isUnread = isFromOther && !state.isChatOpen;
+
+    // Direct messages also mark their tab until it is looked at
+    const conversation = conversationOf(message, state.currentUser?.id);
+    const isUnseen = isFromOther && conversation !== null &&
+      (!state.isChatOpen || state.chatConversation !== conversation);
+
+    return {
+      messages: [...state.messages, message],
+      unreadCount: isUnread ? state.unreadCount + 1 : state.unreadCount,
+      unreadConversations: isUnseen
+        ? new Set(state.unreadConversations).add(conversation)
+        : state.unreadConversations
+    };
+  }),
 
 
   resetRoom: () => set({
     currentRoom: null,
-    localStream: null,
-    screenStream: null,
-    isVideoOn: true,
-    isAudioOn: true,
-    isScreenSharing: false,
-    messages: []
+    handRaisedAt: null,
+    liveReactions: [],
+    unmuteRequest: null,
+    waitingRoom: { isEnabled: false, waiting: [] },
+    messages: [],
+    isChatOpen: false,
+    unreadCount: 0,
+    chatConversation: null,
+    unreadConversations: new Set(),
+    hasMoreHistory: false,
+    fileTransfers: new Map(),
+    peerStats: new Map()
+  }),
+
+
+
+  // History from the server: never counted as unread, kept in timestamp order
+  mergeMessages: (messages) => set((state) => {
+    const known = new Set(state.messages.map(m => m.id));
+    // The first copy of an id wins, within the batch as well as against what we have
+    const fresh = messages.filter(m => {
+      if (known.has(m.id)) return false;
+      known.add(m.id);
+      return true;
+    });
+    if (fresh.length === 0) return state;
+
+    return {
+      messages: [...state.messages, ...fresh].sort(
+        (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)
+      )
+    };
+  }),
+
+  // Edits, deletes and reactions replace the message in place; unknown ids are
+  // older than what we have loaded and are picked up with that page instead
+  updateMessage: (message) => set((state) => {
+    const index = state.messages.findIndex(m => m.id === message.id);
+    if (index === -1) return state;
+
+    const messages = [...state.messages];
+    messages[index] = message;
+    return { messages };
   }),
 
+  setHasMoreHistory: (value) => set({ hasMoreHistory: value }),
 
+  // New incoming offers count as unread, like a message
+  upsertFileTransfer: (transfer) => set((state) => {
+    const fileTransfers = new Map(state.fileTransfers);
+    const isNewOffer = !fileTransfers.has(transfer.id) && transfer.direction === 'incoming';
+    fileTransfers.set(transfer.id, transfer);
+
+    return {
+      fileTransfers,
+      unreadCount: isNewOffer && !state.isChatOpen ? state.unreadCount + 1 : state.unreadCount
+    };
+  }),
+
+  clearMessages: () => set({ messages: [], unreadCount: 0, hasMoreHistory: false }),
+
+  setChatOpen: (open) => set((state) => {
+    const unreadConversations = new Set(state.unreadConversations);
+    if (open && state.chatConversation) unreadConversations.delete(state.chatConversation);
+
+    return {
+      isChatOpen: open,
+      unreadCount: open ? 0 : state.unreadCount,
+      unreadConversations
+    };
+  }),
+
+  setChatConversation: (conversation) => set((state) => {
+    const unreadConversations = new Set(state.unreadConversations);
+    if (conversation) unreadConversations.delete(conversation);
+
+    return { chatConversation: conversation, unreadConversations };
+  }),
 
-  clearMessages: () => set({ messages: [] }),
+  setPeerStats: (stats) => set({ peerStats: stats }),
 
   setLoading: (loading) => set({ isLoading: loading }),
 
@@ -229,14 +417,32 @@ setCurrentRoom: (room) => set((state) => ({
   resetAll: () => set({
     currentUser: null,
     currentRoom: null,
-    localStream: null,
-    screenStream: null,
-    isVideoOn: true,
-    isAudioOn: true,
-    isScreenSharing: false,
+    handRaisedAt: null,
+    liveReactions: [],
+    unmuteRequest: null,
+    waitingRoom: { isEnabled: false, waiting: [] },
     messages: [],
+    isChatOpen: false,
+    unreadCount: 0,
+    chatConversation: null,
+    unreadConversations: new Set(),
+    hasMoreHistory: false,
+    fileTransfers: new Map(),
+    peerStats: new Map(),
     isLoading: false,
     error: null
   })
 
-}));
\ No newline at end of file
+}));
+
+// Tracks only ever change inside the controller; the store just follows along
+localMedia.subscribe(({ stream, screenStream, isAudioOn, isVideoOn, devices }) => {
+  useStore.setState((state) => ({
+    localStream: stream,
+    screenStream,
+    isAudioOn,
+    isVideoOn,
+    isScreenSharing: !!screenStream,
+    preferredDevices: { ...state.preferredDevices, ...devices }
+  }));
+});
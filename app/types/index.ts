@@ -1,19 +1,41 @@
 // src/types/index.ts
+import type { MediaState, ParticipantRole } from '@/lib/signaling';
+
 export interface User {
   userId: string;
   socketId: string;
   userName: string;
+  role: ParticipantRole;
   isVideoOn: boolean;
   isAudioOn: boolean;
   isScreenSharing: boolean;
+  screenStreamId?: string;
+  handRaisedAt?: number;
   joinedAt: Date;
 }
 
 export interface Room {
   roomId: string;
+  hostId: string;
   participants: User[];
   createdAt: Date;
   isLocked: boolean;
+  // Salted scrypt hash of the password while locked; the password itself is never kept
+  password?: { salt: Buffer; hash: Buffer };
+  // Unused one-time invite token -> expiry (epoch ms); cleared whenever the lock changes
+  invites: Map<string, number>;
+  isWaitingRoomEnabled: boolean;
+  // Joiners not admitted yet, oldest first
+  waiting: WaitingUser[];
+}
+
+export interface WaitingUser {
+  requestId: string;
+  socketId: string;
+  userName: string;
+  requestedAt: Date;
+  // Carried over to the participant once admitted
+  media: MediaState;
 }
 
 export interface Message {
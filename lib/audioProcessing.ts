@@ -0,0 +1,173 @@
+// lib/audioProcessing.ts - input gain and a noise gate for the microphone
+//
+// Runs as the local media controller's audio processor, between the mic and the
+// senders: source -> gain -> gate -> MediaStreamAudioDestinationNode, whose track is
+// what peers receive. The gate runs in an AudioWorklet, so it keeps reacting per
+// 128-sample block even when the tab is in the background and timers are throttled.
+import type { TrackProcessor } from './localMedia';
+
+export interface MicSettings {
+  // Percent; 100 leaves the level alone
+  gain: number;
+  noiseGate: boolean;
+  // dBFS the input has to reach before the gate opens
+  gateThreshold: number;
+  // Muted except while the space bar is held; needs no processing of its own
+  pushToTalk: boolean;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  gain: 100,
+  noiseGate: false,
+  gateThreshold: -50,
+  pushToTalk: false
+};
+
+export const GATE_THRESHOLD_RANGE = { min: -80, max: -20 } as const;
+
+export const needsMicProcessing = ({ gain, noiseGate }: MicSettings) =>
+  gain !== 100 || noiseGate;
+
+// Below anything a real threshold would use, so the gate stays open
+const GATE_BYPASS = -100;
+
+// Plain JavaScript: it is loaded into the audio rendering thread as its own module.
+// Opens quickly so first syllables get through, holds a moment across the gaps
+// between words, then fades out rather than clicking shut.
+const NOISE_GATE_WORKLET = `
+const ATTACK_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.15;
+const HOLD_SECONDS = 0.2;
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'threshold', defaultValue: ${GATE_BYPASS}, minValue: ${GATE_BYPASS}, maxValue: 0, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.gain = 0;
+    this.holdUntil = 0;
+    this.attack = 1 - Math.exp(-1 / (ATTACK_SECONDS * sampleRate));
+    this.release = 1 - Math.exp(-1 / (RELEASE_SECONDS * sampleRate));
+  }
+
+  process([input], [output], parameters) {
+    const first = input[0];
+    if (!first) return true;
+
+    let sum = 0;
+    for (let i = 0; i < first.length; i++) sum += first[i] * first[i];
+    // RMS in dBFS; the tiny offset keeps digital silence finite
+    const level = 10 * Math.log10(sum / first.length + 1e-12);
+
+    if (level > parameters.threshold[0]) this.holdUntil = currentTime + HOLD_SECONDS;
+    const target = currentTime < this.holdUntil ? 1 : 0;
+    const coefficient = target > this.gain ? this.attack : this.release;
+
+    for (let i = 0; i < first.length; i++) {
+      this.gain += (target - this.gain) * coefficient;
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = (input[channel] ?? first)[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor);
+`;
+
+interface Graph {
+  context: AudioContext;
+  gain: GainNode;
+  destination: MediaStreamAudioDestinationNode;
+  gate: AudioWorkletNode | null;
+}
+
+export class MicProcessor implements TrackProcessor {
+  private settings: MicSettings = DEFAULT_MIC_SETTINGS;
+  private source: MediaStreamTrack | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  // Made on first use: the module is also loaded during server rendering
+  private graph: Graph | null = null;
+
+  // Takes effect straight away on the running graph
+  setSettings(settings: MicSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  process(source: MediaStreamTrack): MediaStreamTrack {
+    const graph = this.graph ?? this.createGraph();
+    const output = graph.destination.stream.getAudioTracks()[0];
+    if (source === this.source) return output;
+
+    this.sourceNode?.disconnect();
+    this.sourceNode = graph.context.createMediaStreamSource(new MediaStream([source]));
+    this.sourceNode.connect(graph.gain);
+    this.source = source;
+
+    // Created outside a click, the context may start suspended; the page has had one by now
+    graph.context.resume().catch(console.error);
+    return output;
+  }
+
+  stop(): void {
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.source = null;
+
+    if (!this.graph) return;
+    this.graph.destination.stream.getTracks().forEach(track => track.stop());
+    this.graph.context.close().catch(console.error);
+    this.graph = null;
+  }
+
+  private createGraph(): Graph {
+    const context = new AudioContext();
+    const graph: Graph = {
+      context,
+      gain: context.createGain(),
+      destination: context.createMediaStreamDestination(),
+      gate: null
+    };
+    this.graph = graph;
+
+    // Straight through until the gate has loaded, then the gate goes in between
+    graph.gain.connect(graph.destination);
+    this.loadGate(graph).catch((error) => console.error('Noise gate unavailable:', error));
+    this.applySettings();
+    return graph;
+  }
+
+  private async loadGate(graph: Graph): Promise<void> {
+    const url = URL.createObjectURL(new Blob([NOISE_GATE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await graph.context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    // stop() may have closed this graph while the module loaded
+    if (this.graph !== graph) return;
+
+    graph.gate = new AudioWorkletNode(graph.context, 'noise-gate');
+    graph.gain.disconnect();
+    graph.gain.connect(graph.gate).connect(graph.destination);
+    this.applySettings();
+  }
+
+  private applySettings(): void {
+    const graph = this.graph;
+    if (!graph) return;
+
+    const { gain, noiseGate, gateThreshold } = this.settings;
+    graph.gain.gain.value = gain / 100;
+    graph.gate?.parameters.get('threshold')?.setValueAtTime(
+      noiseGate ? gateThreshold : GATE_BYPASS,
+      graph.context.currentTime
+    );
+  }
+}
+
+export const micProcessor = new MicProcessor();
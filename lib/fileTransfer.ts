@@ -0,0 +1,406 @@
+// lib/fileTransfer.ts - peer-to-peer file transfer over RTCDataChannel
+//
+// Offers, accepts and cancels travel on each peer's existing 'chat' channel.
+// Accepting opens a dedicated ordered `file:<transferId>` channel that carries
+// only raw chunks, so a big file never delays chat and never reaches the server.
+import type { DataChannelMessage, FileOffer } from './signaling';
+import { MAX_FILE_SIZE } from './validation';
+
+export type FileTransferStatus =
+  | 'offered'
+  | 'transferring'
+  | 'paused'
+  | 'verifying'
+  | 'complete'
+  | 'failed'
+  | 'cancelled';
+
+export interface FileTransfer {
+  id: string;
+  // Socket id of the other side
+  peerId: string;
+  direction: 'incoming' | 'outgoing';
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  bytesTransferred: number;
+  status: FileTransferStatus;
+  createdAt: number;
+  // Object URL of the verified file, incoming only
+  url?: string;
+  error?: string;
+}
+
+type FileControlMessage = Exclude<DataChannelMessage, { kind: 'chat' }>;
+
+interface TransferHooks {
+  // Send on the peer's control channel; false when it is not open
+  sendControl(peerId: string, message: FileControlMessage): boolean;
+  openChannel(peerId: string, label: string): RTCDataChannel | null;
+  onUpdate(transfer: FileTransfer): void;
+}
+
+interface OutgoingState {
+  transfer: FileTransfer;
+  file: File;
+  channel: RTCDataChannel | null;
+}
+
+interface IncomingState {
+  transfer: FileTransfer;
+  chunks: ArrayBuffer[];
+  channel: RTCDataChannel | null;
+}
+
+// 16 KiB is the largest message size every browser pair agrees on
+const CHUNK_SIZE = 16 * 1024;
+// Stop queueing above the high-water mark, resume once drained to the threshold
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_LOW_THRESHOLD = 256 * 1024;
+const CHANNEL_PREFIX = 'file:';
+
+export const isFileChannel = (label: string) => label.startsWith(CHANNEL_PREFIX);
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export class FileTransferManager {
+  private outgoing: Map<string, OutgoingState> = new Map();
+  private incoming: Map<string, IncomingState> = new Map();
+  // Progress is reported at most once per percent, plus on every status change
+  private lastReported: Map<string, number> = new Map();
+
+  constructor(private hooks: TransferHooks) {}
+
+  /**
+   * Offer a file to each peer. Every peer gets its own transfer, so one slow
+   * or paused receiver never holds the others back.
+   */
+  async offer(file: File, peerIds: string[]): Promise<void> {
+    if (file.size === 0 || file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files must be between 1 byte and ${MAX_FILE_SIZE / 1024 / 1024} MB`);
+    }
+
+    const sha256 = await sha256Hex(await file.arrayBuffer());
+
+    peerIds.forEach(peerId => {
+      const transfer: FileTransfer = {
+        id: crypto.randomUUID(),
+        peerId,
+        direction: 'outgoing',
+        name: file.name,
+        size: file.size,
+        mimeType: file.type,
+        sha256,
+        bytesTransferred: 0,
+        status: 'offered',
+        createdAt: Date.now()
+      };
+      this.outgoing.set(transfer.id, { transfer, file, channel: null });
+
+      const offer: FileOffer = {
+        transferId: transfer.id,
+        name: transfer.name,
+        size: transfer.size,
+        mimeType: transfer.mimeType,
+        sha256
+      };
+
+      if (!this.hooks.sendControl(peerId, { kind: 'file-offer', ...offer })) {
+        this.finish(transfer, 'failed', 'Peer is not connected');
+        return;
+      }
+      this.report(transfer, true);
+    });
+  }
+
+  /**
+   * Start an offered download, or resume a paused one from what we already have.
+   */
+  accept(transferId: string): void {
+    const state = this.incoming.get(transferId);
+    if (!state || !['offered', 'paused'].includes(state.transfer.status)) return;
+
+    const { transfer } = state;
+    if (!this.hooks.sendControl(transfer.peerId, {
+      kind: 'file-accept',
+      transferId,
+      offset: transfer.bytesTransferred
+    })) {
+      transfer.error = 'Peer is not connected';
+      this.report(transfer, true);
+      return;
+    }
+
+    transfer.status = 'transferring';
+    transfer.error = undefined;
+    this.report(transfer, true);
+  }
+
+  // Receiver-side pause; the sender closes the channel and waits for a new accept
+  pause(transferId: string): void {
+    const state = this.incoming.get(transferId);
+    if (!state || state.transfer.status !== 'transferring') return;
+
+    this.hooks.sendControl(state.transfer.peerId, { kind: 'file-pause', transferId });
+    state.channel?.close();
+    state.channel = null;
+    state.transfer.status = 'paused';
+    this.report(state.transfer, true);
+  }
+
+  cancel(transferId: string): void {
+    const state = this.outgoing.get(transferId) ?? this.incoming.get(transferId);
+    if (!state || ['complete', 'failed', 'cancelled'].includes(state.transfer.status)) return;
+
+    this.hooks.sendControl(state.transfer.peerId, { kind: 'file-cancel', transferId });
+    this.finish(state.transfer, 'cancelled');
+  }
+
+  handleControl(peerId: string, message: FileControlMessage): void {
+    if (message.kind === 'file-offer') {
+      if (this.incoming.has(message.transferId)) return;
+
+      const transfer: FileTransfer = {
+        id: message.transferId,
+        peerId,
+        direction: 'incoming',
+        name: message.name,
+        size: message.size,
+        mimeType: message.mimeType,
+        sha256: message.sha256,
+        bytesTransferred: 0,
+        status: 'offered',
+        createdAt: Date.now()
+      };
+      this.incoming.set(transfer.id, { transfer, chunks: [], channel: null });
+      this.report(transfer, true);
+      return;
+    }
+
+    // Everything else refers to an existing transfer with this same peer
+    const state = this.outgoing.get(message.transferId) ?? this.incoming.get(message.transferId);
+    if (!state || state.transfer.peerId !== peerId) return;
+    const { transfer } = state;
+
+    switch (message.kind) {
+      case 'file-accept':
+        if (transfer.direction === 'outgoing' && message.offset <= transfer.size) {
+          this.send(state as OutgoingState, message.offset);
+        }
+        break;
+      case 'file-pause':
+        if (transfer.direction === 'outgoing' && transfer.status === 'transferring') {
+          transfer.status = 'paused';
+          state.channel?.close();
+          state.channel = null;
+          this.report(transfer, true);
+        }
+        break;
+      case 'file-cancel':
+        if (!['complete', 'failed', 'cancelled'].includes(transfer.status)) {
+          this.finish(transfer, 'cancelled', 'Cancelled by the other side');
+        }
+        break;
+      case 'file-complete':
+        if (transfer.direction === 'outgoing') {
+          transfer.bytesTransferred = transfer.size;
+          if (message.verified) {
+            this.finish(transfer, 'complete');
+          } else {
+            this.finish(transfer, 'failed', 'Receiver could not verify the file');
+          }
+        }
+        break;
+    }
+  }
+
+  // Incoming `file:<id>` channel opened by the sender after we accepted
+  handleChannel(peerId: string, channel: RTCDataChannel): void {
+    const state = this.incoming.get(channel.label.slice(CHANNEL_PREFIX.length));
+    if (!state || state.transfer.peerId !== peerId || state.transfer.status !== 'transferring') {
+      channel.close();
+      return;
+    }
+
+    const { transfer } = state;
+    state.channel?.close();
+    state.channel = channel;
+    channel.binaryType = 'arraybuffer';
+
+    channel.onmessage = (event) => {
+      if (!(event.data instanceof ArrayBuffer) || transfer.status !== 'transferring') return;
+
+      state.chunks.push(event.data);
+      transfer.bytesTransferred += event.data.byteLength;
+
+      if (transfer.bytesTransferred > transfer.size) {
+        this.hooks.sendControl(peerId, { kind: 'file-cancel', transferId: transfer.id });
+        this.finish(transfer, 'failed', 'Received more data than offered');
+      } else if (transfer.bytesTransferred === transfer.size) {
+        this.verify(state);
+      } else {
+        this.report(transfer);
+      }
+    };
+
+    // A dropped channel mid-transfer can be resumed from what we have
+    channel.onclose = () => {
+      if (state.channel !== channel) return;
+      state.channel = null;
+
+      if (transfer.status === 'transferring') {
+        transfer.status = 'paused';
+        transfer.error = 'Connection interrupted';
+        this.report(transfer, true);
+      }
+    };
+  }
+
+  // The peer is gone for good: nothing can resume
+  dropPeer(peerId: string): void {
+    [...this.outgoing.values(), ...this.incoming.values()].forEach(({ transfer }) => {
+      if (transfer.peerId === peerId && !['complete', 'failed', 'cancelled'].includes(transfer.status)) {
+        this.finish(transfer, 'failed', 'Peer left the call');
+      }
+    });
+  }
+
+  renamePeer(previousPeerId: string, peerId: string): void {
+    [...this.outgoing.values(), ...this.incoming.values()].forEach(({ transfer }) => {
+      if (transfer.peerId === previousPeerId) {
+        transfer.peerId = peerId;
+        this.report(transfer, true);
+      }
+    });
+  }
+
+  cleanup(): void {
+    [...this.outgoing.values(), ...this.incoming.values()].forEach(state => {
+      state.channel?.close();
+      if (state.transfer.url) URL.revokeObjectURL(state.transfer.url);
+    });
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.lastReported.clear();
+  }
+
+  private async send(state: OutgoingState, offset: number): Promise<void> {
+    const { transfer, file } = state;
+    if (['complete', 'failed', 'cancelled'].includes(transfer.status)) return;
+
+    state.channel?.close();
+    const channel = this.hooks.openChannel(transfer.peerId, `${CHANNEL_PREFIX}${transfer.id}`);
+    if (!channel) {
+      this.finish(transfer, 'failed', 'Peer is not connected');
+      return;
+    }
+
+    state.channel = channel;
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_THRESHOLD;
+
+    transfer.status = 'transferring';
+    transfer.bytesTransferred = offset;
+    transfer.error = undefined;
+    this.report(transfer, true);
+
+    // Paused, cancelled, or superseded by a newer accept
+    const stillSending = () => state.channel === channel && transfer.status === 'transferring';
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        channel.onopen = () => resolve();
+        channel.onclose = () => reject(new Error('Channel closed before opening'));
+      });
+
+      channel.onclose = () => {
+        if (state.channel !== channel) return;
+        state.channel = null;
+        if (transfer.status === 'transferring') {
+          transfer.status = 'paused';
+          transfer.error = 'Connection interrupted';
+          this.report(transfer, true);
+        }
+      };
+
+      let position = offset;
+      while (position < transfer.size && stillSending()) {
+        if (channel.bufferedAmount > BUFFER_HIGH_WATER) {
+          await new Promise<void>(resolve => {
+            channel.onbufferedamountlow = () => {
+              channel.onbufferedamountlow = null;
+              resolve();
+            };
+          });
+          continue;
+        }
+
+        const chunk = await file.slice(position, position + CHUNK_SIZE).arrayBuffer();
+        if (!stillSending()) break;
+
+        channel.send(chunk);
+        position += chunk.byteLength;
+        transfer.bytesTransferred = position;
+        this.report(transfer);
+      }
+      // The receiver answers with file-complete once it has verified the hash
+    } catch (error) {
+      if (stillSending()) {
+        transfer.status = 'paused';
+        transfer.error = error instanceof Error ? error.message : 'Transfer interrupted';
+        this.report(transfer, true);
+      }
+    }
+  }
+
+  private async verify(state: IncomingState): Promise<void> {
+    const { transfer } = state;
+    transfer.status = 'verifying';
+    this.report(transfer, true);
+
+    const blob = new Blob(state.chunks, { type: transfer.mimeType || 'application/octet-stream' });
+    state.chunks = [];
+
+    const verified = await sha256Hex(await blob.arrayBuffer()) === transfer.sha256;
+    // Cancelled while we were hashing
+    if (transfer.status !== 'verifying') return;
+
+    this.hooks.sendControl(transfer.peerId, { kind: 'file-complete', transferId: transfer.id, verified });
+    state.channel?.close();
+    state.channel = null;
+
+    if (verified) {
+      transfer.url = URL.createObjectURL(blob);
+      this.finish(transfer, 'complete');
+    } else {
+      this.finish(transfer, 'failed', 'File is corrupted (hash mismatch)');
+    }
+  }
+
+  private finish(transfer: FileTransfer, status: FileTransferStatus, error?: string): void {
+    transfer.status = status;
+    transfer.error = error;
+
+    const state = this.outgoing.get(transfer.id) ?? this.incoming.get(transfer.id);
+    if (state) {
+      state.channel?.close();
+      state.channel = null;
+      if ('chunks' in state) state.chunks = [];
+    }
+    this.report(transfer, true);
+  }
+
+  private report(transfer: FileTransfer, force: boolean = false): void {
+    const step = Math.max(transfer.size / 100, CHUNK_SIZE);
+    const last = this.lastReported.get(transfer.id) ?? -Infinity;
+    if (!force && transfer.bytesTransferred - last < step) return;
+
+    this.lastReported.set(transfer.id, transfer.bytesTransferred);
+    // A copy, so React sees a new object on every update
+    this.hooks.onUpdate({ ...transfer });
+  }
+}
@@ -0,0 +1,86 @@
+// lib/iceServers.ts - ICE configuration the signaling server hands to participants
+import { createHmac } from 'node:crypto';
+
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  // Seconds the TURN credentials stay valid
+  ttl: number;
+  // Unix time in milliseconds after which the client should fetch again
+  expiresAt: number;
+}
+
+const DEFAULT_STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302'
+];
+const DEFAULT_TTL_SECONDS = 3600;
+
+function parseUrls(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Time-limited TURN credentials using the coturn REST API scheme
+ * (`use-auth-secret` / `static-auth-secret` in turnserver.conf):
+ * username is `<expiry unix seconds>:<user>`, credential is base64(HMAC-SHA1(secret, username)).
+ */
+export function createTurnCredentials(
+  secret: string,
+  userId: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): { username: string; credential: string } {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential };
+}
+
+/**
+ * Build the ICE server list from environment configuration.
+ *
+ * - `STUN_URLS`: comma-separated STUN urls. Defaults to Google's public STUN servers;
+ *   set it to an empty string on offline networks to use host candidates only.
+ * - `TURN_URLS`: comma-separated TURN urls (e.g. `turn:turn.example.com:3478?transport=udp`).
+ * - `TURN_SECRET`: coturn shared secret used to mint short-lived credentials.
+ * - `TURN_USERNAME` / `TURN_CREDENTIAL`: static credentials, used when no secret is set.
+ * - `TURN_TTL_SECONDS`: lifetime of minted credentials (default 3600).
+ */
+export function getIceConfig(userId: string = 'anonymous', now: number = Date.now()): IceConfig {
+  const stunUrls = process.env.STUN_URLS !== undefined
+    ? parseUrls(process.env.STUN_URLS)
+    : DEFAULT_STUN_URLS;
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const ttl = Number(process.env.TURN_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  const iceServers: RTCIceServer[] = [];
+
+  if (stunUrls.length) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  if (turnUrls.length) {
+    const secret = process.env.TURN_SECRET;
+
+    if (secret) {
+      iceServers.push({ urls: turnUrls, ...createTurnCredentials(secret, userId, ttl, now) });
+    } else if (process.env.TURN_USERNAME && process.env.TURN_CREDENTIAL) {
+      iceServers.push({
+        urls: turnUrls,
+        username: process.env.TURN_USERNAME,
+        credential: process.env.TURN_CREDENTIAL
+      });
+    } else {
+      console.warn('⚠️ TURN_URLS is set without TURN_SECRET or static credentials, skipping TURN');
+    }
+  }
+
+  return {
+    iceServers,
+    ttl,
+    expiresAt: now + ttl * 1000
+  };
+}
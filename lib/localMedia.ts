@@ -0,0 +1,371 @@
+// lib/localMedia.ts - the single owner of the camera, microphone and screen tracks we send
+//
+// Nothing else opens, stops or mutes a local track. The controller keeps each track
+// together with its constraints and on/off state, pushes every change to the call's
+// RTCRtpSenders through a MediaSink (the WebRTCManager), and publishes an immutable
+// snapshot that the store and React hooks subscribe to.
+import type { DisplayMediaVideoConstraints } from './webrtc';
+
+export type LocalTrackKind = 'audio' | 'video';
+
+export interface InputDevices {
+  audioInputId?: string;
+  videoInputId?: string;
+}
+
+export interface LocalMediaSnapshot {
+  // Camera and microphone; has no video track while the camera is off
+  stream: MediaStream | null;
+  screenStream: MediaStream | null;
+  isAudioOn: boolean;
+  isVideoOn: boolean;
+  // Whether the device worked when last opened, so a camera turned off still counts
+  hasMicrophone: boolean;
+  hasCamera: boolean;
+  devices: InputDevices;
+}
+
+// What the controller needs from the call. Swapping a track on an existing sender
+// needs no renegotiation, so setLocalStream is expected to reuse senders.
+export interface MediaSink {
+  setLocalStream(stream: MediaStream): Promise<void>;
+  startScreenShare(stream: MediaStream): void;
+  stopScreenShare(): void;
+}
+
+// A stage between a device track and the senders, such as video effects
+export interface TrackProcessor {
+  // Returns the track to send instead. Called again whenever the stream is rebuilt,
+  // often with the same source, and with a new one after a device switch.
+  process(source: MediaStreamTrack): MediaStreamTrack;
+  // Lets go of whatever process() made; the source track is left alone
+  stop(): void;
+}
+
+export interface ScreenShareHooks {
+  // Runs before the track reaches any peer: receivers tell a screen from a camera by stream id
+  onStarted: (stream: MediaStream) => void;
+  // The browser's own "Stop sharing" bar ended it
+  onEnded: () => void;
+}
+
+export const cameraConstraints = (deviceId?: string): MediaTrackConstraints => ({
+  deviceId: deviceId ? { exact: deviceId } : undefined,
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30, max: 60 },
+  facingMode: 'user'
+});
+
+export const microphoneConstraints = (deviceId?: string): MediaTrackConstraints => ({
+  deviceId: deviceId ? { exact: deviceId } : undefined,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+});
+
+const SCREEN_CONSTRAINTS: DisplayMediaVideoConstraints = {
+  displaySurface: 'monitor',
+  frameRate: { ideal: 15, max: 30 }
+};
+
+const INITIAL_SNAPSHOT: LocalMediaSnapshot = {
+  stream: null,
+  screenStream: null,
+  isAudioOn: true,
+  isVideoOn: true,
+  hasMicrophone: false,
+  hasCamera: false,
+  devices: {}
+};
+
+const constraintsFor = (kind: LocalTrackKind, deviceId?: string): MediaStreamConstraints =>
+  kind === 'audio'
+    ? { audio: microphoneConstraints(deviceId) }
+    : { video: cameraConstraints(deviceId) };
+
+export class LocalMediaController {
+  private snapshot: LocalMediaSnapshot = INITIAL_SNAPSHOT;
+  private listeners: Set<(snapshot: LocalMediaSnapshot) => void> = new Set();
+  private sink: MediaSink | null = null;
+  // Tracks as the devices gave them; the published stream carries these or their processed output
+  private sources: Partial<Record<LocalTrackKind, MediaStreamTrack>> = {};
+  private processors: Partial<Record<LocalTrackKind, TrackProcessor>> = {};
+  // Bumped by start() and stop(), so a slow getUserMedia cannot resurrect a stream
+  private generation = 0;
+  private deviceLostListener: ((kind: LocalTrackKind) => void) | null = null;
+
+  getSnapshot = (): LocalMediaSnapshot => this.snapshot;
+
+  // Shaped for useSyncExternalStore
+  subscribe = (listener: (snapshot: LocalMediaSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Open the microphone and, if video is on, the camera. Devices not given keep
+   * their current choice. Resolves to null if stop() or another start() overtook it.
+   */
+  async start(devices: InputDevices = {}): Promise<MediaStream | null> {
+    const generation = ++this.generation;
+    const chosen = { ...this.snapshot.devices, ...devices };
+    this.stopSources();
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: microphoneConstraints(chosen.audioInputId),
+      video: this.snapshot.isVideoOn ? cameraConstraints(chosen.videoInputId) : false
+    });
+
+    if (generation !== this.generation) {
+      this.stopTracks(stream);
+      return null;
+    }
+
+    stream.getAudioTracks().forEach(track => { track.enabled = this.snapshot.isAudioOn; });
+    this.sources = { audio: stream.getAudioTracks()[0], video: stream.getVideoTracks()[0] };
+    this.watchSources();
+    return this.rebuild({
+      devices: chosen,
+      hasMicrophone: !!this.sources.audio,
+      hasCamera: !!this.sources.video || this.snapshot.hasCamera
+    });
+  }
+
+  // Release every device and forget the call; mute state goes back to its defaults
+  stop(): void {
+    this.generation++;
+    this.sink = null;
+    this.stopSources();
+    // Processors stay chosen for the next call, but give back what they hold
+    Object.values(this.processors).forEach(processor => processor.stop());
+    this.stopTracks(this.snapshot.screenStream);
+    this.publish({ ...INITIAL_SNAPSHOT, devices: this.snapshot.devices });
+  }
+
+  // A muted mic keeps its track, so unmuting is instant and peers just get silence
+  setAudioEnabled(isAudioOn: boolean): void {
+    if (this.sources.audio) this.sources.audio.enabled = isAudioOn;
+    this.snapshot.stream?.getAudioTracks().forEach(track => { track.enabled = isAudioOn; });
+    this.publish({ isAudioOn });
+  }
+
+  /**
+   * Turning video off stops the camera track outright, so the device is released and
+   * its light goes out; peers' senders are emptied rather than removed. Turning it on
+   * opens the camera again and fills the same senders.
+   */
+  async setVideoEnabled(isVideoOn: boolean): Promise<void> {
+    if (isVideoOn === this.snapshot.isVideoOn) return;
+
+    if (!isVideoOn) {
+      this.replaceSource('video', null, { isVideoOn });
+      return;
+    }
+
+    const generation = this.generation;
+    const track = await this.openTrack('video', this.snapshot.devices.videoInputId);
+    // Left the call, or clicked twice, while the camera was starting
+    if (generation !== this.generation || this.snapshot.isVideoOn) {
+      track.stop();
+      return;
+    }
+
+    this.replaceSource('video', track, { isVideoOn, hasCamera: true });
+  }
+
+  /**
+   * Use another camera or microphone. A camera that is turned off is only remembered
+   * for next time; nothing is opened.
+   */
+  async switchDevice(kind: LocalTrackKind, deviceId?: string): Promise<void> {
+    const devices = {
+      ...this.snapshot.devices,
+      ...(kind === 'audio' ? { audioInputId: deviceId } : { videoInputId: deviceId })
+    };
+    const current = this.sources[kind];
+
+    if (!this.snapshot.stream || (kind === 'video' && !current)) {
+      this.publish({ devices });
+      return;
+    }
+
+    // Some cameras cannot be opened twice, so let go of the old one first
+    if (kind === 'video') current?.stop();
+
+    const generation = this.generation;
+    try {
+      const track = await this.openTrack(kind, deviceId, false);
+      // Left the call while the device was opening
+      if (generation !== this.generation) {
+        track.stop();
+        return;
+      }
+      this.replaceSource(kind, track, { devices });
+    } catch (error) {
+      // The old camera is already gone, so carry on with it off rather than frozen
+      if (kind === 'video' && generation === this.generation) this.dropDevice('video', { isVideoOn: false });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a kind's device track through `processor` from now on, or untouched again
+   * with null. The choice outlives the call, like the device choice.
+   */
+  setProcessor(kind: LocalTrackKind, processor: TrackProcessor | null): void {
+    const previous = this.processors[kind];
+    if (previous === processor) return;
+
+    if (processor) this.processors[kind] = processor;
+    else delete this.processors[kind];
+
+    if (this.sources[kind]) this.rebuild();
+    // Only once the senders have moved off its output
+    previous?.stop();
+  }
+
+  /**
+   * Ask the browser for a screen, window or tab. Rejects with NotAllowedError if the
+   * picker is closed.
+   */
+  async startScreenShare({ onStarted, onEnded }: ScreenShareHooks): Promise<MediaStream | null> {
+    if (this.snapshot.screenStream) return this.snapshot.screenStream;
+
+    const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: SCREEN_CONSTRAINTS, audio: false });
+    const track = screenStream.getVideoTracks()[0];
+    if (!track) return null;
+
+    // Favour legible text over smooth motion when bandwidth is short
+    track.contentHint = 'detail';
+    track.onended = () => {
+      this.stopScreenShare();
+      onEnded();
+    };
+
+    onStarted(screenStream);
+    this.sink?.startScreenShare(screenStream);
+    this.publish({ screenStream });
+    return screenStream;
+  }
+
+  stopScreenShare(): void {
+    const { screenStream } = this.snapshot;
+    if (!screenStream) return;
+
+    screenStream.getTracks().forEach(track => { track.onended = null; });
+    this.stopTracks(screenStream);
+    this.sink?.stopScreenShare();
+    this.publish({ screenStream: null });
+  }
+
+  /**
+   * Told when a camera or mic that was on had to be turned off because it failed or
+   * went away with nothing to fall back to, so the call can announce it like a click
+   * on the button. One listener at a time; null removes it.
+   */
+  onDeviceLost(listener: ((kind: LocalTrackKind) => void) | null): void {
+    this.deviceLostListener = listener;
+  }
+
+  /**
+   * Send our media on this call from now on. Tracks present now are handed over
+   * straight away, and every later change is pushed as it happens.
+   */
+  attach(sink: MediaSink): void {
+    if (this.sink === sink) return;
+    this.sink = sink;
+
+    const { stream, screenStream } = this.snapshot;
+    if (stream) sink.setLocalStream(stream).catch(console.error);
+    if (screenStream) sink.startScreenShare(screenStream);
+  }
+
+  // An explicit device that fails falls back to the system default if `fallback` is set
+  private async openTrack(kind: LocalTrackKind, deviceId?: string, fallback = true): Promise<MediaStreamTrack> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(constraintsFor(kind, deviceId));
+    } catch (error) {
+      if (!deviceId || !fallback) throw error;
+      stream = await navigator.mediaDevices.getUserMedia(constraintsFor(kind));
+    }
+
+    const track = stream.getTracks()[0];
+    track.enabled = kind === 'audio' ? this.snapshot.isAudioOn : true;
+    return track;
+  }
+
+  private replaceSource(kind: LocalTrackKind, track: MediaStreamTrack | null, changes: Partial<LocalMediaSnapshot> = {}): void {
+    const previous = this.sources[kind];
+    if (previous !== track) previous?.stop();
+
+    if (track) this.sources[kind] = track;
+    else delete this.sources[kind];
+
+    this.watchSources();
+    this.rebuild(changes);
+  }
+
+  private dropDevice(kind: LocalTrackKind, changes: Partial<LocalMediaSnapshot>): void {
+    const wasOn = kind === 'audio' ? this.snapshot.isAudioOn : this.snapshot.isVideoOn;
+    this.replaceSource(kind, null, changes);
+    if (wasOn) this.deviceLostListener?.(kind);
+  }
+
+  // A new stream every time, so subscribers keyed on the stream see the change
+  private rebuild(changes: Partial<LocalMediaSnapshot> = {}): MediaStream {
+    const tracks = (['audio', 'video'] as const).flatMap(kind => {
+      const source = this.sources[kind];
+      if (!source) return [];
+      const track = this.processors[kind]?.process(source) ?? source;
+      // A processor's output starts out enabled whatever the mic's mute state
+      if (kind === 'audio') track.enabled = this.snapshot.isAudioOn;
+      return [track];
+    });
+
+    const stream = new MediaStream(tracks);
+    this.sink?.setLocalStream(stream).catch(console.error);
+    this.publish({ ...changes, stream });
+    return stream;
+  }
+
+  // An unplugged device ends its track; carry on with whatever the system offers
+  private watchSources(): void {
+    (['audio', 'video'] as const).forEach(kind => {
+      const track = this.sources[kind];
+      if (!track) return;
+
+      track.onended = () => {
+        if (this.sources[kind] !== track) return;
+
+        console.warn(`Local ${kind} device went away, falling back to the default`);
+        this.switchDevice(kind, undefined).catch((error) => {
+          console.error('Device fallback failed:', error);
+          this.dropDevice(kind, kind === 'audio'
+            ? { hasMicrophone: false, isAudioOn: false }
+            : { hasCamera: false, isVideoOn: false });
+        });
+      };
+    });
+  }
+
+  private stopSources(): void {
+    Object.values(this.sources).forEach(track => track.stop());
+    this.sources = {};
+  }
+
+  // Stopping a track ourselves does not fire `ended`, so no fallback kicks in
+  private stopTracks(stream: MediaStream | null, kind?: LocalTrackKind): void {
+    stream?.getTracks()
+      .filter(track => !kind || track.kind === kind)
+      .forEach(track => track.stop());
+  }
+
+  private publish(changes: Partial<LocalMediaSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
+
+export const localMedia = new LocalMediaController();
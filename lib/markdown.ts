@@ -0,0 +1,212 @@
+// lib/markdown.ts - the small markdown subset chat messages may use
+//
+// Messages are parsed into a tree that the UI renders as React elements, so
+// nothing a participant types is ever interpreted as HTML. Supported:
+// fenced code blocks, `inline code`, **bold**, *italic* / _italic_, ~~strike~~,
+// [links](https://...), bare http(s) URLs, `- ` / `1. ` lists and `> ` quotes.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] };
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d{1,9}[.)]\s+(.*)$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const LINK = /^\[([^\]\n]+)\]\(([^)\s]+)\)/;
+const BARE_URL = /^https?:\/\/[^\s<]+/;
+const ESCAPABLE = /[\\`*_~[\]()>#+\-.!]/;
+
+const EMPHASIS: { delimiter: string; type: 'strong' | 'em' | 'strike' }[] = [
+  { delimiter: '**', type: 'strong' },
+  { delimiter: '__', type: 'strong' },
+  { delimiter: '~~', type: 'strike' },
+  { delimiter: '*', type: 'em' },
+  { delimiter: '_', type: 'em' }
+];
+
+/**
+ * Only web and mail links are rendered as links; anything else
+ * (`javascript:`, `data:`, relative paths) stays plain text.
+ */
+export function safeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Index of the delimiter closing one opened at `from`, or -1.
+ * `_` only counts at word boundaries, so snake_case stays as written.
+ */
+function findClosing(src: string, delimiter: string, from: number): number {
+  let index = src.indexOf(delimiter, from);
+
+  while (index !== -1) {
+    const inner = src.slice(from, index);
+    const isBoundary = delimiter[0] !== '_' || !isWordChar(src[index + delimiter.length]);
+    // A single `*` must not close on half of a `**`
+    const isWhole = delimiter.length === 2 || (src[index + 1] !== delimiter && src[index - 1] !== delimiter);
+
+    if (inner.trim() === inner && inner.length > 0 && isBoundary && isWhole) return index;
+    index = src.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+export function parseInline(src: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let text = '';
+
+  const flush = () => {
+    if (text) nodes.push({ type: 'text', text });
+    text = '';
+  };
+
+  let i = 0;
+  outer: while (i < src.length) {
+    const char = src[i];
+    const rest = src.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(src[i + 1] ?? '')) {
+      text += src[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = src.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: src.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    for (const { delimiter, type } of EMPHASIS) {
+      if (!rest.startsWith(delimiter)) continue;
+      if (delimiter[0] === '_' && isWordChar(src[i - 1])) continue;
+
+      const start = i + delimiter.length;
+      const end = findClosing(src, delimiter, start);
+      if (end === -1) continue;
+
+      flush();
+      nodes.push({ type, children: parseInline(src.slice(start, end)) });
+      i = end + delimiter.length;
+      continue outer;
+    }
+
+    if (char === '[') {
+      const match = LINK.exec(rest);
+      const href = match && safeHref(match[2]);
+      if (match && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !isWordChar(src[i - 1])) {
+      const match = BARE_URL.exec(rest);
+      // Trailing punctuation usually ends the sentence, not the URL
+      const url = match?.[0].replace(/[.,:;!?'")\]]+$/, '');
+      const href = url && safeHref(url);
+      if (url && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(src: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = src.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[1] || undefined, text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    const listPattern = UNORDERED_ITEM.test(line) ? UNORDERED_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : null;
+    if (listPattern) {
+      flushParagraph();
+      const items: MarkdownInline[][] = [];
+      let item: RegExpExecArray | null;
+      while (i < lines.length && (item = listPattern.exec(lines[i]))) {
+        items.push(parseInline(item[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED_ITEM, items });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE_LINE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
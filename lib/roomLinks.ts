@@ -0,0 +1,32 @@
+// lib/roomLinks.ts - room URLs, invite links and the remembered display name
+//
+// Every room lives at /room/<ROOM_ID>. The whole meeting still runs in one page
+// component, so the URL is swapped with history.replaceState rather than navigated:
+// a router navigation would remount the page and tear down the call.
+
+// Read by app/room/[roomId]/page.tsx to prefill the join form
+export const DISPLAY_NAME_COOKIE = 'displayName';
+// Query parameter carrying a one-time token into a locked room
+export const INVITE_PARAM = 'invite';
+
+const DISPLAY_NAME_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+export function roomPath(roomId: string): string {
+  return `/room/${encodeURIComponent(roomId)}`;
+}
+
+export function buildInviteUrl(roomId: string, inviteToken?: string): string {
+  const url = new URL(roomPath(roomId), window.location.origin);
+  if (inviteToken) url.searchParams.set(INVITE_PARAM, inviteToken);
+  return url.toString();
+}
+
+// Also drops any invite token from the address bar once it has been used
+export function showRoomInAddressBar(roomId: string | null): void {
+  window.history.replaceState(null, '', roomId ? roomPath(roomId) : '/');
+}
+
+export function rememberDisplayName(userName: string): void {
+  document.cookie =
+    `${DISPLAY_NAME_COOKIE}=${encodeURIComponent(userName)}; path=/; max-age=${DISPLAY_NAME_MAX_AGE_S}; samesite=lax`;
+}
@@ -0,0 +1,408 @@
+// lib/signaling.ts - event contract shared by SocketService and the signaling server
+//
+// Both sides use these maps through Socket.IO generics (`Socket<ServerToClientEvents,
+// ClientToServerEvents>` on the client, `Server<ClientToServerEvents, ServerToClientEvents>`
+// on the server), so renaming an event or changing a payload fails to compile on the
+// side that was not updated.
+import type { IceConfig } from './iceServers';
+
+// Highest first: hosts moderate everyone else, co-hosts moderate participants
+export const PARTICIPANT_ROLES = ['host', 'co-host', 'participant'] as const;
+
+export type ParticipantRole = typeof PARTICIPANT_ROLES[number];
+
+// Why a join was refused, for failures the joiner can fix from the form
+export const ROOM_JOIN_ERROR_CODES = [
+  'room-not-found',
+  'password-required',
+  'wrong-password',
+  'invite-expired',
+  'waiting-room-full',
+  'room-full'
+] as const;
+
+export type RoomJoinErrorCode = typeof ROOM_JOIN_ERROR_CODES[number];
+
+export interface Participant {
+  id: string | null | undefined;
+  userId: string;
+
+  userName: string;
+  socketId: string;
+  role: ParticipantRole;
+  isVideoOn: boolean;
+  isAudioOn: boolean;
+  isScreenSharing?: boolean;
+  // MediaStream id of the screen share, so receivers can tell it from the camera
+  screenStreamId?: string;
+  // Epoch ms the hand went up; the speaking queue is ordered by it
+  handRaisedAt?: number;
+}
+
+// Mic and camera as chosen in the pre-join lobby; both on if not given
+export interface MediaState {
+  isAudioOn: boolean;
+  isVideoOn: boolean;
+}
+
+export interface RoomJoinResponse {
+  success: true;
+  socketId: string;
+  roomId: string;
+  userName: string;
+  hostId: string;
+  userId: string;
+  isHost: boolean;
+  role: ParticipantRole;
+  // Joiners wait for a host or co-host to admit them
+  isWaitingRoomEnabled: boolean;
+  // Joiners need the room password
+  isLocked: boolean;
+  participants: Participant[];
+  // Presented with `resume-session` to re-attach after a signaling disconnect
+  resumeToken: string;
+  // Most recent chat messages, oldest first; older pages via `get-chat-history`
+  chatHistory: ChatMessage[];
+  hasMoreHistory: boolean;
+}
+
+// The joiner is in the waiting room; `room-joined` or `join-denied` follows
+export interface RoomJoinPending {
+  success: false;
+  pending: true;
+  roomId: string;
+}
+
+export interface RoomJoinError {
+  success: false;
+  error: string;
+  code?: RoomJoinErrorCode;
+}
+
+export type RoomJoinAck = RoomJoinResponse | RoomJoinPending | RoomJoinError;
+
+export interface WaitingParticipant {
+  // Identifies the request, not a user: nobody in the waiting room has a user id yet
+  requestId: string;
+  userName: string;
+  // Epoch ms, for first-come ordering
+  requestedAt: number;
+}
+
+// Sent to hosts and co-hosts only, whole, on every change
+export interface WaitingRoomPayload {
+  isEnabled: boolean;
+  waiting: WaitingParticipant[];
+}
+
+// One-time token that lets its holder into a locked room without the password
+export type CreateInviteAck =
+  | { success: true; token: string; expiresAt: number }
+  | { success: false; error: string };
+
+// TURN credentials are minted for the asking participant and expire with `ttl`
+export type IceConfigAck =
+  | ({ success: true } & IceConfig)
+  | { success: false; error: string };
+
+export type ChatHistoryAck =
+  | { success: true; messages: ChatMessage[]; hasMore: boolean }
+  | { success: false; error: string };
+
+// Plain text is shown verbatim; markdown is rendered from a safe subset
+export type ChatMessageFormat = 'plain' | 'markdown';
+
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '👀'] as const;
+
+export type ChatReaction = typeof CHAT_REACTIONS[number];
+
+// Shown floating over the sender's video tile for a few seconds, never stored
+export const LIVE_REACTIONS = ['👍', '👏', '❤️', '😂', '🎉', '😮'] as const;
+
+export type LiveReaction = typeof LIVE_REACTIONS[number];
+
+export interface ChatMention {
+  userId: string;
+  // Name at the time of sending, as written after the `@`
+  userName: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  userName: string;
+  // Empty once the message is deleted
+  message: string;
+  timestamp: string;
+  type: 'text' | 'system';
+  format?: ChatMessageFormat;
+  mentions?: ChatMention[];
+  // Ids of the users who reacted, per emoji
+  reactions?: Partial<Record<ChatReaction, string[]>>;
+  editedAt?: string;
+  deletedAt?: string;
+  // Direct messages only: the one user it was sent to. Never stored in the room history.
+  recipientId?: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  PAYLOADS                                  */
+/* -------------------------------------------------------------------------- */
+
+export interface UserJoinedPayload {
+  userId: string;
+  socketId: string;
+  userName: string;
+  role: ParticipantRole;
+  isVideoOn: boolean;
+  isAudioOn: boolean;
+  isScreenSharing?: boolean;
+}
+
+export interface UserLeftPayload {
+  userId: string;
+  socketId: string;
+}
+
+export interface UserResumedPayload {
+  userId: string;
+  socketId: string;
+  previousSocketId: string;
+}
+
+export interface MediaTogglePayload {
+  userId: string;
+  state: boolean;
+}
+
+export interface ScreenShareStartedPayload {
+  userId: string;
+  socketId: string;
+  streamId: string;
+}
+
+export interface ScreenShareStoppedPayload {
+  userId: string;
+}
+
+// `raisedAt` is null once the hand is lowered, by its owner or a host
+export interface HandChangedPayload {
+  userId: string;
+  raisedAt: number | null;
+}
+
+export interface ReactionPayload {
+  userId: string;
+  emoji: LiveReaction;
+}
+
+// Sent to the participant alone, who turns the device off and announces it with `toggle-*`
+export interface MediaDisabledPayload {
+  kind: MediaKind;
+  // Name of the host or co-host who did it
+  by: string;
+}
+
+export interface UnmuteRequestedPayload {
+  by: string;
+}
+
+// The previous host, if still in the room, stays on as a co-host
+export interface HostChangedPayload {
+  hostId: string;
+  previousHostId: string;
+}
+
+export interface RoleChangedPayload {
+  userId: string;
+  role: ParticipantRole;
+}
+
+export interface WebRTCOfferPayload {
+  offer: RTCSessionDescriptionInit;
+  from: string;
+}
+
+export interface WebRTCAnswerPayload {
+  answer: RTCSessionDescriptionInit;
+  from: string;
+}
+
+export interface WebRTCIceCandidatePayload {
+  candidate: RTCIceCandidateInit;
+  from: string;
+}
+
+// Device pixels the receiver is rendering `from`'s video at
+export interface VideoSizePayload {
+  width: number;
+  height: number;
+  from: string;
+}
+
+export type MediaKind = 'audio' | 'video';
+
+/* -------------------------------------------------------------------------- */
+/*                                DATA CHANNEL                                */
+/* -------------------------------------------------------------------------- */
+
+// Peer-to-peer messages on the 'chat' data channel; they never touch the server.
+// File bytes go over a separate `file:<transferId>` channel per transfer.
+
+export interface FileOffer {
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  // Hex SHA-256 of the whole file, checked by the receiver
+  sha256: string;
+}
+
+export type DataChannelMessage =
+  | { kind: 'chat'; message: ChatMessage }
+  | ({ kind: 'file-offer' } & FileOffer)
+  // Start, or resume from `offset` bytes
+  | { kind: 'file-accept'; transferId: string; offset: number }
+  | { kind: 'file-pause'; transferId: string }
+  | { kind: 'file-cancel'; transferId: string }
+  | { kind: 'file-complete'; transferId: string; verified: boolean };
+
+/* -------------------------------------------------------------------------- */
+/*                                   EVENTS                                   */
+/* -------------------------------------------------------------------------- */
+
+export interface ClientToServerEvents {
+  'create-room': (data: { userName: string; roomId?: string; media?: MediaState }, ack: (response: RoomJoinAck) => void) => void;
+  'join-room': (data: { roomId: string; userName: string; password?: string; inviteToken?: string; media?: MediaState }, ack: (response: RoomJoinAck) => void) => void;
+  'leave-room': (data: { roomId: string; userId: string }) => void;
+  'resume-session': (data: { roomId: string; userId: string; resumeToken: string }, ack: (response: RoomJoinAck) => void) => void;
+
+  // `from` is informational only; the server always substitutes the sender's socket id
+  'webrtc-offer': (data: { to: string; offer: RTCSessionDescriptionInit; from: string }) => void;
+  'webrtc-answer': (data: { to: string; answer: RTCSessionDescriptionInit; from: string }) => void;
+  'webrtc-ice-candidate': (data: { to: string; candidate: RTCIceCandidateInit; from: string }) => void;
+  'video-size': (data: { to: string; width: number; height: number }) => void;
+
+  'toggle-audio': (data: { roomId: string; userId: string; state: boolean }) => void;
+  'toggle-video': (data: { roomId: string; userId: string; state: boolean }) => void;
+  // Sent before the screen track is added, so receivers can classify it in ontrack
+  'start-screen-share': (data: { roomId: string; userId: string; streamId: string }) => void;
+  'stop-screen-share': (data: { roomId: string; userId: string }) => void;
+  'raise-hand': (data: { roomId: string; userId: string; raised: boolean }) => void;
+  // Hosts and co-hosts, for anyone they outrank
+  'lower-hand': (data: { roomId: string; targetUserId: string }) => void;
+  'send-reaction': (data: { roomId: string; emoji: LiveReaction }) => void;
+
+  // `id` is chosen by the sender so copies that also arrive over a data channel can be deduplicated.
+  // `mentions` are user ids; the server resolves them against the room.
+  // With `recipientId` the message goes to that participant alone.
+  'send-chat-message': (data: {
+    roomId: string;
+    userId: string;
+    userName: string;
+    message: string;
+    id?: string;
+    format?: ChatMessageFormat;
+    mentions?: string[];
+    recipientId?: string;
+  }) => void;
+  // Only the author may edit or delete; answered with `chat-message-updated`
+  'edit-chat-message': (data: {
+    roomId: string;
+    messageId: string;
+    message: string;
+    format?: ChatMessageFormat;
+    mentions?: string[];
+  }) => void;
+  'delete-chat-message': (data: { roomId: string; messageId: string }) => void;
+  // Adds the sender's reaction, or removes it if already there
+  'toggle-chat-reaction': (data: { roomId: string; messageId: string; emoji: ChatReaction }) => void;
+  // Page backwards from the message with id `before`
+  'get-chat-history': (data: { roomId: string; before?: string; limit?: number }, ack: (response: ChatHistoryAck) => void) => void;
+
+  'lock-room': (data: { roomId: string; password: string }) => void;
+  'unlock-room': (data: { roomId: string }) => void;
+  // Hosts and co-hosts of a locked room
+  'create-invite': (data: { roomId: string }, ack: (response: CreateInviteAck) => void) => void;
+  // Participants of the room only, so the TURN server cannot be used as an open relay
+  'get-ice-config': (data: { roomId: string }, ack: (response: IceConfigAck) => void) => void;
+  // Moderation: hosts and co-hosts, for anyone they outrank
+  'kick-user': (data: { roomId: string; targetUserId: string }) => void;
+  'disable-participant-media': (data: { roomId: string; targetUserId: string; kind: MediaKind }) => void;
+  'mute-all': (data: { roomId: string }) => void;
+  // Only asks; nobody can turn someone else's microphone on
+  'request-unmute': (data: { roomId: string; targetUserId: string }) => void;
+  // Host only
+  'transfer-host': (data: { roomId: string; targetUserId: string }) => void;
+  'set-role': (data: { roomId: string; targetUserId: string; role: Exclude<ParticipantRole, 'host'> }) => void;
+  // Waiting room: hosts and co-hosts
+  'set-waiting-room': (data: { roomId: string; enabled: boolean }) => void;
+  'admit-participant': (data: { roomId: string; requestId: string }) => void;
+  'deny-participant': (data: { roomId: string; requestId: string }) => void;
+  'admit-all': (data: { roomId: string }) => void;
+  // The joiner gives up waiting
+  'leave-waiting-room': (data: { roomId: string }) => void;
+
+  'ping': () => void;
+}
+
+export interface ServerToClientEvents {
+  'room-joined': (data: RoomJoinResponse) => void;
+  'user-joining': (user: Participant) => void;
+  'user-joined': (user: UserJoinedPayload) => void;
+  'user-left': (data: UserLeftPayload) => void;
+  'user-resumed': (data: UserResumedPayload) => void;
+
+  'webrtc-offer': (data: WebRTCOfferPayload) => void;
+  'webrtc-answer': (data: WebRTCAnswerPayload) => void;
+  'webrtc-ice-candidate': (data: WebRTCIceCandidatePayload) => void;
+  'video-size': (data: VideoSizePayload) => void;
+
+  'user-audio-toggled': (data: MediaTogglePayload) => void;
+  'user-video-toggled': (data: MediaTogglePayload) => void;
+  'screen-share-started': (data: ScreenShareStartedPayload) => void;
+  'screen-share-stopped': (data: ScreenShareStoppedPayload) => void;
+  // Sent to everyone, the participant included, so a host lowering a hand reaches its owner
+  'hand-changed': (data: HandChangedPayload) => void;
+  'reaction': (data: ReactionPayload) => void;
+
+  'new-chat-message': (message: ChatMessage) => void;
+  // The whole message after an edit, delete or reaction, to replace in place
+  'chat-message-updated': (message: ChatMessage) => void;
+
+  'room-locked': (data: { isLocked: boolean }) => void;
+  'waiting-room-updated': (data: WaitingRoomPayload) => void;
+  // To someone in the waiting room who was turned away, or whose meeting ended
+  'join-denied': (data: { reason: string }) => void;
+  'kicked': (data: { reason: string }) => void;
+  'media-disabled': (data: MediaDisabledPayload) => void;
+  'unmute-requested': (data: UnmuteRequestedPayload) => void;
+  'role-changed': (data: RoleChangedPayload) => void;
+  // After a transfer, or when a departed host is replaced by the longest-present participant
+  'host-changed': (data: HostChangedPayload) => void;
+
+  'pong': () => void;
+}
+
+/**
+ * Maps a media kind to the server event that announces it, so the client
+ * subscribes to exactly the name the server emits.
+ */
+export const MEDIA_TOGGLED_EVENTS = {
+  audio: 'user-audio-toggled',
+  video: 'user-video-toggled'
+} as const satisfies Record<MediaKind, keyof ServerToClientEvents>;
+
+const ROLE_RANK: Record<ParticipantRole, number> = {
+  host: 2,
+  'co-host': 1,
+  participant: 0
+};
+
+/**
+ * Whether someone with the `actor` role may mute, remove or otherwise
+ * moderate someone with the `target` role. Nobody moderates their equals.
+ */
+export function canModerate(actor: ParticipantRole, target: ParticipantRole): boolean {
+  return ROLE_RANK[actor] > ROLE_RANK[target];
+}
@@ -1,86 +1,163 @@
 // frontend/src/lib/socket.ts - ENHANCED VERSION
 import { io, Socket } from 'socket.io-client';
-
-
-type MediaToggleData =
-  | { userId: string; state: boolean }        // audio / video
-  | { userId: string; socketId: string }     // screen-share start
-  | { userId: string }; 
-
-
-  interface MediaTogglePayload {
-  userId: string;
-  state: boolean;
-}
-
-interface ScreenSharePayload {
-  userId: string;
-}
-
-
-// Types
-export interface RoomJoinResponse {
-  success: boolean;
-  socketId: string;
+import {
+  ChatHistoryAck,
+  ChatMessage,
+  ChatMessageFormat,
+  ChatReaction,
+  ClientToServerEvents,
+  CreateInviteAck,
+  HandChangedPayload,
+  HostChangedPayload,
+  IceConfigAck,
+  LiveReaction,
+  MEDIA_TOGGLED_EVENTS,
+  MediaDisabledPayload,
+  MediaKind,
+  MediaState,
+  MediaTogglePayload,
+  ParticipantRole,
+  ReactionPayload,
+  RoleChangedPayload,
+  RoomJoinErrorCode,
+  RoomJoinResponse,
+  ScreenShareStartedPayload,
+  ScreenShareStoppedPayload,
+  ServerToClientEvents,
+  UnmuteRequestedPayload,
+  UserJoinedPayload,
+  UserLeftPayload,
+  UserResumedPayload,
+  VideoSizePayload,
+  WaitingRoomPayload,
+  WebRTCAnswerPayload,
+  WebRTCIceCandidatePayload,
+  WebRTCOfferPayload
+} from './signaling';
+import {
+  chatHistoryAckSchema,
+  chatMessageSchema,
+  createInviteAckSchema,
+  handChangedSchema,
+  hostChangedSchema,
+  iceConfigAckSchema,
+  joinDeniedSchema,
+  kickedSchema,
+  mediaDisabledSchema,
+  mediaToggleSchema,
+  parsePayload,
+  participantSchema,
+  reactionSchema,
+  roleChangedSchema,
+  roomJoinAckSchema,
+  roomLockedSchema,
+  screenShareStartedSchema,
+  screenShareStoppedSchema,
+  unmuteRequestedSchema,
+  userJoinedSchema,
+  userLeftSchema,
+  userResumedSchema,
+  videoSizeSchema,
+  waitingRoomSchema,
+  webrtcAnswerSchema,
+  webrtcIceCandidateSchema,
+  webrtcOfferSchema
+} from './validation';
+
+export { CHAT_REACTIONS, LIVE_REACTIONS, canModerate } from './signaling';
+export type {
+  ChatMessage,
+  ChatMessageFormat,
+  ChatReaction,
+  LiveReaction,
+  MediaKind,
+  MediaState,
+  Participant,
+  ParticipantRole,
+  RoomJoinErrorCode,
+  RoomJoinResponse,
+  WaitingParticipant,
+  WaitingRoomPayload
+} from './signaling';
+
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+interface ResumableSession {
   roomId: string;
-  userName: string
-  hostId: string
   userId: string;
-  isHost: boolean;
-  participants: Participant[];
-  error?: string;
+  resumeToken: string;
 }
 
-export interface Participant {
-  id: string | null | undefined;
-  userId: string;
- 
-  userName: string;
-  socketId: string;
-  isVideoOn: boolean;
-  isAudioOn: boolean;
-  isScreenSharing?: boolean;
+export interface JoinOptions {
+  // Either gets us into a locked room
+  password?: string;
+  inviteToken?: string;
+  media?: MediaState;
 }
 
-interface UserLeftPayload {
-  userId: string;
-  socketId: string;
+// A join-room call waiting for a host to admit us
+interface PendingJoin {
+  roomId: string;
+  resolve: (response: RoomJoinResponse) => void;
+  reject: (error: Error) => void;
 }
 
-interface UserJoinedPayload {
-  userId: string;
-  socketId: string;
-  userName: string;
-  isVideoOn: boolean;
-  isAudioOn: boolean;
-  isScreenSharing: boolean;
+/**
+ * A join that ended in the waiting room: turned away by a host,
+ * the meeting ended, or we stopped waiting.
+ */
+export class JoinDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JoinDeniedError';
+  }
 }
 
-export interface ChatMessage {
-  id: string;
-  userId: string;
-  userName: string;
-  message: string;
-  timestamp: string;
-  type: 'text' | 'system';
+/**
+ * The server refused a join. `code` is set when the joiner can fix it,
+ * e.g. by entering the room password.
+ */
+export class RoomJoinFailedError extends Error {
+  constructor(message: string, readonly code?: RoomJoinErrorCode) {
+    super(message);
+    this.name = 'RoomJoinFailedError';
+  }
 }
 
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: SignalingSocket | null = null;
   private isConnected = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
     private connectTime = 0; 
+  // Set while we are in a room, so a reconnect can re-attach instead of rejoining
+  private session: ResumableSession | null = null;
+  private pendingJoin: PendingJoin | null = null;
   
   // Event callbacks
   private onRoomJoinedCallback: ((data: RoomJoinResponse) => void) | null = null;
-  private onUserJoinedCallback: ((user: Participant) => void) | null = null;
-  private onUserLeftCallback: ((data: { userId: string }) => void) | null = null;
-  private onWebRTCOfferCallback: ((data: { offer: RTCSessionDescriptionInit; from: string }) => void) | null = null;
-  private onWebRTCAnswerCallback: ((data: { answer: RTCSessionDescriptionInit; from: string }) => void) | null = null;
-  private onWebRTCIceCandidateCallback: ((data: { candidate: RTCIceCandidateInit; from: string }) => void) | null = null;
+  private onUserJoinedCallback: ((user: UserJoinedPayload) => void) | null = null;
+  private onUserLeftCallback: ((data: UserLeftPayload) => void) | null = null;
+  private onWebRTCOfferCallback: ((data: WebRTCOfferPayload) => void) | null = null;
+  private onWebRTCAnswerCallback: ((data: WebRTCAnswerPayload) => void) | null = null;
+  private onWebRTCIceCandidateCallback: ((data: WebRTCIceCandidatePayload) => void) | null = null;
+  private onVideoSizeCallback: ((data: VideoSizePayload) => void) | null = null;
   private onChatMessageCallback: ((message: ChatMessage) => void) | null = null;
-  private onMediaToggledCallbacks: Map<string, (data: MediaToggleData) => void> = new Map();
+  private onChatMessageUpdatedCallback: ((message: ChatMessage) => void) | null = null;
+  private onMediaToggledCallbacks: Map<MediaKind, (data: MediaTogglePayload) => void> = new Map();
+  private onScreenShareStartedCallback: ((data: ScreenShareStartedPayload) => void) | null = null;
+  private onScreenShareStoppedCallback: ((data: ScreenShareStoppedPayload) => void) | null = null;
+  private onHandChangedCallback: ((data: HandChangedPayload) => void) | null = null;
+  private onReactionCallback: ((data: ReactionPayload) => void) | null = null;
+  private onMediaDisabledCallback: ((data: MediaDisabledPayload) => void) | null = null;
+  private onUnmuteRequestedCallback: ((data: UnmuteRequestedPayload) => void) | null = null;
+  private onRoleChangedCallback: ((data: RoleChangedPayload) => void) | null = null;
+  private onHostChangedCallback: ((data: HostChangedPayload) => void) | null = null;
+  private onWaitingRoomUpdatedCallback: ((data: WaitingRoomPayload) => void) | null = null;
+  private onRoomLockedCallback: ((isLocked: boolean) => void) | null = null;
+  private onUserResumedCallback: ((data: UserResumedPayload) => void) | null = null;
+  private onSessionResumedCallback: ((data: RoomJoinResponse) => void) | null = null;
+  private onSessionLostCallback: ((reason: string) => void) | null = null;
 
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -108,6 +185,13 @@ class SocketService {
         resolve();
       });
 
+      // Fires on every reconnect as well; the socket id is new each time
+      this.socket.on('connect', () => {
+        if (this.session) {
+          this.resumeSession(this.session);
+        }
+      });
+
 
       this.socket.on('connect_error', (error) => {
         console.error('Connection error:', error.message);
@@ -129,73 +213,159 @@ class SocketService {
       } else if (reason === 'transport close') {
         console.log('Network connection lost');
       }
+
+      if (this.session && this.socket?.active) {
+        console.log('⏳ Will resume session after reconnect');
+      }
+
+      // The server forgets waiting sockets, so there is nothing to come back to
+      this.settlePendingJoin(new JoinDeniedError('Lost connection while waiting to be let in'));
     });
 
    
 
       // Room events
-      this.socket.on('room-joined', (data: RoomJoinResponse) => {
-        this.onRoomJoinedCallback?.(data);
+      // Every payload is validated before it reaches a callback
+      this.socket.on('room-joined', (data) => {
+        const payload = parsePayload(roomJoinAckSchema, data, { event: 'room-joined' });
+        if (!payload?.success) return;
+
+        // Admitted from the waiting room
+        if (this.pendingJoin?.roomId === payload.roomId) {
+          this.rememberSession(payload);
+          this.settlePendingJoin(payload);
+        }
+        this.onRoomJoinedCallback?.(payload);
       });
 
-      this.socket.on('user-joined', (user: Participant) => {
+      this.socket.on('user-joined', (data) => {
+        const user = parsePayload(userJoinedSchema, data, { event: 'user-joined' });
+        if (!user) return;
         console.log('👤 User joined:', user.userName);
         this.onUserJoinedCallback?.(user);
       });
 
-      this.socket.on('user-joining', (user: Participant) => {
+      this.socket.on('user-joining', (data) => {
+        const user = parsePayload(participantSchema, data, { event: 'user-joining' });
+        if (!user) return;
         console.log('👤 User is joining:', user.userName);
       });
 
-      this.socket.on('user-left', (data: { userId: string }) => {
-        this.onUserLeftCallback?.(data);
+      this.socket.on('user-left', (data) => {
+        const payload = parsePayload(userLeftSchema, data, { event: 'user-left' });
+        if (payload) this.onUserLeftCallback?.(payload);
+      });
+
+      this.socket.on('user-resumed', (data) => {
+        const payload = parsePayload(userResumedSchema, data, { event: 'user-resumed' });
+        if (payload) this.onUserResumedCallback?.(payload);
       });
 
       // WebRTC signaling events
-      this.socket.on('webrtc-offer', (data: { offer: RTCSessionDescriptionInit; from: string }) => {
-        this.onWebRTCOfferCallback?.(data);
+      this.socket.on('webrtc-offer', (data) => {
+        const payload = parsePayload(webrtcOfferSchema, data, { event: 'webrtc-offer' });
+        if (payload) this.onWebRTCOfferCallback?.(payload);
       });
 
-      this.socket.on('webrtc-answer', (data: { answer: RTCSessionDescriptionInit; from: string }) => {
-        this.onWebRTCAnswerCallback?.(data);
+      this.socket.on('webrtc-answer', (data) => {
+        const payload = parsePayload(webrtcAnswerSchema, data, { event: 'webrtc-answer' });
+        if (payload) this.onWebRTCAnswerCallback?.(payload);
       });
 
-      this.socket.on('webrtc-ice-candidate', (data: { candidate: RTCIceCandidateInit; from: string }) => {
-        this.onWebRTCIceCandidateCallback?.(data);
+      this.socket.on('webrtc-ice-candidate', (data) => {
+        const payload = parsePayload(webrtcIceCandidateSchema, data, { event: 'webrtc-ice-candidate' });
+        if (payload) this.onWebRTCIceCandidateCallback?.(payload);
+      });
+
+      this.socket.on('video-size', (data) => {
+        const payload = parsePayload(videoSizeSchema, data, { event: 'video-size' });
+        if (payload) this.onVideoSizeCallback?.(payload);
       });
 
       // Media events
-      this.socket.on('user-audio-toggled', (data: { userId: string; state: boolean }) => {
-        this.onMediaToggledCallbacks.get('audio')?.(data);
+      (Object.keys(MEDIA_TOGGLED_EVENTS) as MediaKind[]).forEach((kind) => {
+        const event = MEDIA_TOGGLED_EVENTS[kind];
+        this.socket?.on(event, (data) => {
+          const payload = parsePayload(mediaToggleSchema, data, { event });
+          if (payload) this.onMediaToggledCallbacks.get(kind)?.(payload);
+        });
       });
 
-      this.socket.on('user-video-toggled', (data: { userId: string; state: boolean }) => {
-        this.onMediaToggledCallbacks.get('video')?.(data);
+      this.socket.on('screen-share-started', (data) => {
+        const payload = parsePayload(screenShareStartedSchema, data, { event: 'screen-share-started' });
+        if (payload) this.onScreenShareStartedCallback?.(payload);
       });
 
-      this.socket.on('screen-share-started', (data: { userId: string; socketId: string }) => {
-        this.onMediaToggledCallbacks.get('screen-share-start')?.(data);
+      this.socket.on('screen-share-stopped', (data) => {
+        const payload = parsePayload(screenShareStoppedSchema, data, { event: 'screen-share-stopped' });
+        if (payload) this.onScreenShareStoppedCallback?.(payload);
       });
 
-      this.socket.on('screen-share-stopped', (data: { userId: string }) => {
-        this.onMediaToggledCallbacks.get('screen-share-stop')?.(data);
+      this.socket.on('hand-changed', (data) => {
+        const payload = parsePayload(handChangedSchema, data, { event: 'hand-changed' });
+        if (payload) this.onHandChangedCallback?.(payload);
+      });
+
+      this.socket.on('reaction', (data) => {
+        const payload = parsePayload(reactionSchema, data, { event: 'reaction' });
+        if (payload) this.onReactionCallback?.(payload);
       });
 
       // Chat events
-      this.socket.on('new-chat-message', (message: ChatMessage) => {
-        this.onChatMessageCallback?.(message);
+      this.socket.on('new-chat-message', (data) => {
+        const message = parsePayload(chatMessageSchema, data, { event: 'new-chat-message' });
+        if (message) this.onChatMessageCallback?.(message);
+      });
+
+      this.socket.on('chat-message-updated', (data) => {
+        const message = parsePayload(chatMessageSchema, data, { event: 'chat-message-updated' });
+        if (message) this.onChatMessageUpdatedCallback?.(message);
       });
 
       // Room management events
-      this.socket.on('room-locked', (data: { isLocked: boolean }) => {
-        console.log(`🔒 Room ${data.isLocked ? 'locked' : 'unlocked'}`);
+      this.socket.on('room-locked', (payload) => {
+        const data = parsePayload(roomLockedSchema, payload, { event: 'room-locked' });
+        if (data) this.onRoomLockedCallback?.(data.isLocked);
       });
 
-      this.socket.on('kicked', (data: { reason: string }) => {
+      this.socket.on('kicked', (payload) => {
+        const data = parsePayload(kickedSchema, payload, { event: 'kicked' });
+        if (!data) return;
         alert(`You were removed from the room: ${data.reason}`);
         window.location.reload();
       });
 
+      this.socket.on('media-disabled', (payload) => {
+        const data = parsePayload(mediaDisabledSchema, payload, { event: 'media-disabled' });
+        if (data) this.onMediaDisabledCallback?.(data);
+      });
+
+      this.socket.on('unmute-requested', (payload) => {
+        const data = parsePayload(unmuteRequestedSchema, payload, { event: 'unmute-requested' });
+        if (data) this.onUnmuteRequestedCallback?.(data);
+      });
+
+      this.socket.on('role-changed', (payload) => {
+        const data = parsePayload(roleChangedSchema, payload, { event: 'role-changed' });
+        if (data) this.onRoleChangedCallback?.(data);
+      });
+
+      this.socket.on('host-changed', (payload) => {
+        const data = parsePayload(hostChangedSchema, payload, { event: 'host-changed' });
+        if (data) this.onHostChangedCallback?.(data);
+      });
+
+      // Waiting room events
+      this.socket.on('waiting-room-updated', (payload) => {
+        const data = parsePayload(waitingRoomSchema, payload, { event: 'waiting-room-updated' });
+        if (data) this.onWaitingRoomUpdatedCallback?.(data);
+      });
+
+      this.socket.on('join-denied', (payload) => {
+        const data = parsePayload(joinDeniedSchema, payload, { event: 'join-denied' });
+        if (data) this.settlePendingJoin(new JoinDeniedError(data.reason));
+      });
+
       // Health check
       this.socket.on('pong', () => {
         // Connection is healthy
@@ -204,49 +374,115 @@ class SocketService {
   }
 
   // Room methods
-  createRoom(userName: string, roomId: string): Promise<RoomJoinResponse> {
+  createRoom(userName: string, roomId: string, media?: MediaState): Promise<RoomJoinResponse> {
     return new Promise((resolve, reject) => {
       if (!this.socket?.connected) {
         reject(new Error('Not connected to server'));
         return;
       }
 
-      this.socket.emit('create-room', { userName, roomId }, (response: RoomJoinResponse) => {
-        console.log(response, "createRoomResponse");
-        if (response.success) {
+      this.socket.emit('create-room', { userName, roomId, media }, (data) => {
+        console.log(data, "createRoomResponse");
+        const response = parsePayload(roomJoinAckSchema, data, { event: 'create-room:ack', senderId: 'server' });
+        if (!response) {
+          reject(new Error('Invalid response from server'));
+        } else if (response.success) {
+          this.rememberSession(response);
           resolve(response);
         } else {
-          reject(new Error(response.error || 'Failed to create room'));
+          reject(new Error(('error' in response && response.error) || 'Failed to create room'));
         }
       });
     });
   }
 
-  joinRoom(roomId: string, userName: string, password?: string): Promise<RoomJoinResponse> {
+  // With a waiting room the promise stays open until a host admits or denies us;
+  // `onWaiting` runs when that starts
+  joinRoom(
+    roomId: string,
+    userName: string,
+    options: JoinOptions = {},
+    onWaiting?: () => void
+  ): Promise<RoomJoinResponse> {
     return new Promise((resolve, reject) => {
       if (!this.socket?.connected) {
         reject(new Error('Not connected to server'));
         return;
       }
 
-      this.socket.emit('join-room', { roomId, userName, password }, (response: RoomJoinResponse) => {
-        console.log(response, "joinRoomResponse");
-        if (response.success) {
-    
+      this.socket.emit('join-room', { roomId, userName, ...options }, (data) => {
+        console.log(data, "joinRoomResponse");
+        const response = parsePayload(roomJoinAckSchema, data, { event: 'join-room:ack', senderId: 'server' });
+        if (!response) {
+          reject(new Error('Invalid response from server'));
+        } else if (response.success) {
+          this.rememberSession(response);
           resolve(response);
+        } else if ('pending' in response) {
+          this.pendingJoin = { roomId: response.roomId, resolve, reject };
+          onWaiting?.();
         } else {
-          reject(new Error(response.error || 'Failed to join room'));
+          reject(new RoomJoinFailedError(response.error || 'Failed to join room', response.code));
         }
       });
     });
   }
 
+  // Stop waiting to be admitted; the pending joinRoom() rejects
+  leaveWaitingRoom(): void {
+    if (!this.pendingJoin) return;
+    this.socket?.emit('leave-waiting-room', { roomId: this.pendingJoin.roomId });
+    this.settlePendingJoin(new JoinDeniedError('You left the waiting room'));
+  }
+
+  private settlePendingJoin(result: RoomJoinResponse | Error): void {
+    const pending = this.pendingJoin;
+    if (!pending) return;
+
+    this.pendingJoin = null;
+    if (result instanceof Error) {
+      pending.reject(result);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
 
   
 
   leaveRoom(roomId: string, userId: string): void {
+    this.session = null;
     this.socket?.emit('leave-room', { roomId, userId });
-    
+  }
+
+  private rememberSession(response: RoomJoinResponse): void {
+    this.session = {
+      roomId: response.roomId,
+      userId: response.userId,
+      resumeToken: response.resumeToken
+    };
+  }
+
+  private resumeSession(session: ResumableSession): void {
+    console.log('🔁 Resuming session in room', session.roomId);
+
+    this.socket?.emit('resume-session', session, (data) => {
+      const response = parsePayload(roomJoinAckSchema, data, { event: 'resume-session:ack', senderId: 'server' });
+
+      // Ignore late answers for a session we already left
+      if (this.session !== session) return;
+
+      if (response?.success) {
+        console.log('✅ Session resumed with socket', response.socketId);
+        this.rememberSession(response);
+        this.onSessionResumedCallback?.(response);
+      } else {
+        const reason = (response && 'error' in response && response.error) || 'Invalid response from server';
+        console.warn('❌ Session could not be resumed:', reason);
+        this.session = null;
+        this.onSessionLostCallback?.(reason);
+      }
+    });
   }
 
   // WebRTC signaling methods
@@ -263,6 +499,11 @@ class SocketService {
     this.socket?.emit('webrtc-ice-candidate', { to, candidate, from });
   }
 
+  // Tell a peer how large we render their video so they can send no more than that
+  sendVideoSize(to: string, width: number, height: number): void {
+    this.socket?.emit('video-size', { to, width, height });
+  }
+
   // Media control methods
   toggleAudio(roomId: string, userId: string, state: boolean): void {
     this.socket?.emit('toggle-audio', { roomId, userId, state });
@@ -273,20 +514,76 @@ class SocketService {
     this.socket?.emit('toggle-video', { roomId, userId, state });
   }
 
-  startScreenShare(roomId: string, userId: string): void {
-    this.socket?.emit('start-screen-share', { roomId, userId });
+  startScreenShare(roomId: string, userId: string, streamId: string): void {
+    this.socket?.emit('start-screen-share', { roomId, userId, streamId });
   }
 
   stopScreenShare(roomId: string, userId: string): void {
     this.socket?.emit('stop-screen-share', { roomId, userId });
   }
 
+  raiseHand(roomId: string, userId: string, raised: boolean): void {
+    this.socket?.emit('raise-hand', { roomId, userId, raised });
+  }
+
+  lowerHand(roomId: string, targetUserId: string): void {
+    this.socket?.emit('lower-hand', { roomId, targetUserId });
+  }
+
+  sendReaction(roomId: string, emoji: LiveReaction): void {
+    this.socket?.emit('send-reaction', { roomId, emoji });
+  }
+
   // Chat methods
-  sendChatMessage(roomId: string, userId: string, userName: string, message: string): void {
-    this.socket?.emit('send-chat-message', { roomId, userId, userName, message });
+  sendChatMessage(
+    roomId: string,
+    userId: string,
+    userName: string,
+    message: string,
+    options: { id?: string; format?: ChatMessageFormat; mentions?: string[]; recipientId?: string } = {}
+  ): void {
+    this.socket?.emit('send-chat-message', { roomId, userId, userName, message, ...options });
+  }
+
+  editChatMessage(
+    roomId: string,
+    messageId: string,
+    message: string,
+    options: { format?: ChatMessageFormat; mentions?: string[] } = {}
+  ): void {
+    this.socket?.emit('edit-chat-message', { roomId, messageId, message, ...options });
+  }
+
+  deleteChatMessage(roomId: string, messageId: string): void {
+    this.socket?.emit('delete-chat-message', { roomId, messageId });
+  }
+
+  toggleChatReaction(roomId: string, messageId: string, emoji: ChatReaction): void {
+    this.socket?.emit('toggle-chat-reaction', { roomId, messageId, emoji });
+  }
+
+  // Older messages than `before` (a message id), oldest first
+  getChatHistory(roomId: string, before?: string): Promise<Extract<ChatHistoryAck, { success: true }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('get-chat-history', { roomId, before }, (data) => {
+        const response = parsePayload(chatHistoryAckSchema, data, { event: 'get-chat-history:ack', senderId: 'server' });
+        if (!response) {
+          reject(new Error('Invalid response from server'));
+        } else if (response.success) {
+          resolve(response);
+        } else {
+          reject(new Error(response.error || 'Failed to load chat history'));
+        }
+      });
+    });
   }
 
-  // Room management methods
+  // Room management methods; host only
   lockRoom(roomId: string, password: string): void {
     this.socket?.emit('lock-room', { roomId, password });
   }
@@ -295,48 +592,181 @@ class SocketService {
     this.socket?.emit('unlock-room', { roomId });
   }
 
+  // Hosts and co-hosts of a locked room
+  createInvite(roomId: string): Promise<Extract<CreateInviteAck, { success: true }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('create-invite', { roomId }, (data) => {
+        const response = parsePayload(createInviteAckSchema, data, { event: 'create-invite:ack', senderId: 'server' });
+        if (!response) {
+          reject(new Error('Invalid response from server'));
+        } else if (response.success) {
+          resolve(response);
+        } else {
+          reject(new Error(response.error || 'Failed to create invite'));
+        }
+      });
+    });
+  }
+
+  // ICE servers with TURN credentials minted for us; only given to participants of the room
+  getIceConfig(roomId: string): Promise<Extract<IceConfigAck, { success: true }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('get-ice-config', { roomId }, (data) => {
+        const response = parsePayload(iceConfigAckSchema, data, { event: 'get-ice-config:ack', senderId: 'server' });
+        if (!response) {
+          reject(new Error('Invalid response from server'));
+        } else if (response.success) {
+          resolve(response);
+        } else {
+          reject(new Error(response.error || 'Failed to load ICE configuration'));
+        }
+      });
+    });
+  }
+
+  // Moderation methods; the server ignores anyone who does not outrank the target
   kickUser(roomId: string, targetUserId: string): void {
     this.socket?.emit('kick-user', { roomId, targetUserId });
   }
 
+  disableParticipantMedia(roomId: string, targetUserId: string, kind: MediaKind): void {
+    this.socket?.emit('disable-participant-media', { roomId, targetUserId, kind });
+  }
+
+  muteAll(roomId: string): void {
+    this.socket?.emit('mute-all', { roomId });
+  }
+
+  requestUnmute(roomId: string, targetUserId: string): void {
+    this.socket?.emit('request-unmute', { roomId, targetUserId });
+  }
+
+  transferHost(roomId: string, targetUserId: string): void {
+    this.socket?.emit('transfer-host', { roomId, targetUserId });
+  }
+
+  setWaitingRoom(roomId: string, enabled: boolean): void {
+    this.socket?.emit('set-waiting-room', { roomId, enabled });
+  }
+
+  admitParticipant(roomId: string, requestId: string): void {
+    this.socket?.emit('admit-participant', { roomId, requestId });
+  }
+
+  denyParticipant(roomId: string, requestId: string): void {
+    this.socket?.emit('deny-participant', { roomId, requestId });
+  }
+
+  admitAll(roomId: string): void {
+    this.socket?.emit('admit-all', { roomId });
+  }
+
+  setRole(roomId: string, targetUserId: string, role: Exclude<ParticipantRole, 'host'>): void {
+    this.socket?.emit('set-role', { roomId, targetUserId, role });
+  }
+
   // Event subscription methods
   onRoomJoined(callback: (data: RoomJoinResponse) => void): void {
     this.onRoomJoinedCallback = callback;
   }
 
   onUserJoined(callback: (data: UserJoinedPayload) => void): void {
-    if (this.socket) {
-      this.socket.on("user-joined", callback);
-    }
+    this.onUserJoinedCallback = callback;
   }
 
-onUserLeft(callback: (data: UserLeftPayload) => void) {
-  if(!this.socket) return
-  this.socket.on("user-left", callback);
-}
+  onUserLeft(callback: (data: UserLeftPayload) => void): void {
+    this.onUserLeftCallback = callback;
+  }
+
+  onUserResumed(callback: (data: UserResumedPayload) => void): void {
+    this.onUserResumedCallback = callback;
+  }
 
-  onWebRTCOffer(callback: (data: { offer: RTCSessionDescriptionInit; from: string }) => void): void {
+  onSessionResumed(callback: (data: RoomJoinResponse) => void): void {
+    this.onSessionResumedCallback = callback;
+  }
+
+  onSessionLost(callback: (reason: string) => void): void {
+    this.onSessionLostCallback = callback;
+  }
+
+  onWebRTCOffer(callback: (data: WebRTCOfferPayload) => void): void {
     this.onWebRTCOfferCallback = callback;
   }
 
-  onWebRTCAnswer(callback: (data: { answer: RTCSessionDescriptionInit; from: string }) => void): void {
+  onWebRTCAnswer(callback: (data: WebRTCAnswerPayload) => void): void {
     this.onWebRTCAnswerCallback = callback;
   }
 
-  onWebRTCIceCandidate(callback: (data: { candidate: RTCIceCandidateInit; from: string }) => void): void {
+  onWebRTCIceCandidate(callback: (data: WebRTCIceCandidatePayload) => void): void {
     this.onWebRTCIceCandidateCallback = callback;
   }
 
+  onVideoSize(callback: (data: VideoSizePayload) => void): void {
+    this.onVideoSizeCallback = callback;
+  }
+
   onChatMessage(callback: (message: ChatMessage) => void): void {
     this.onChatMessageCallback = callback;
   }
-onMediaToggled(
-  type: "audio" | "video",
-  callback: (data: MediaTogglePayload) => void
-) {
-  if(!this.socket) return
-  this.socket.on(`media-${type}-toggled`, callback);
-}
+
+  onChatMessageUpdated(callback: (message: ChatMessage) => void): void {
+    this.onChatMessageUpdatedCallback = callback;
+  }
+
+  onMediaToggled(type: MediaKind, callback: (data: MediaTogglePayload) => void): void {
+    this.onMediaToggledCallbacks.set(type, callback);
+  }
+
+  onScreenShareStarted(callback: (data: ScreenShareStartedPayload) => void): void {
+    this.onScreenShareStartedCallback = callback;
+  }
+
+  onScreenShareStopped(callback: (data: ScreenShareStoppedPayload) => void): void {
+    this.onScreenShareStoppedCallback = callback;
+  }
+
+  onHandChanged(callback: (data: HandChangedPayload) => void): void {
+    this.onHandChangedCallback = callback;
+  }
+
+  onReaction(callback: (data: ReactionPayload) => void): void {
+    this.onReactionCallback = callback;
+  }
+
+  onMediaDisabled(callback: (data: MediaDisabledPayload) => void): void {
+    this.onMediaDisabledCallback = callback;
+  }
+
+  onUnmuteRequested(callback: (data: UnmuteRequestedPayload) => void): void {
+    this.onUnmuteRequestedCallback = callback;
+  }
+
+  onRoleChanged(callback: (data: RoleChangedPayload) => void): void {
+    this.onRoleChangedCallback = callback;
+  }
+
+  onHostChanged(callback: (data: HostChangedPayload) => void): void {
+    this.onHostChangedCallback = callback;
+  }
+
+  onWaitingRoomUpdated(callback: (data: WaitingRoomPayload) => void): void {
+    this.onWaitingRoomUpdatedCallback = callback;
+  }
+
+  onRoomLocked(callback: (isLocked: boolean) => void): void {
+    this.onRoomLockedCallback = callback;
+  }
 
 
   // Utility methods
@@ -346,6 +776,7 @@ onMediaToggled(
 
   
   disconnect() {
+    this.session = null;
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -0,0 +1,175 @@
+// lib/stats.ts - per-peer connection statistics from RTCPeerConnection.getStats()
+
+export type ConnectionQuality = 'excellent' | 'good' | 'poor' | 'bad' | 'unknown';
+
+export interface PeerStats {
+  peerId: string;
+  // kbit/s, summed over all audio and video streams
+  inboundBitrate: number;
+  outboundBitrate: number;
+  // Congestion-control estimate of what we can send to this peer, kbit/s
+  availableOutgoingBitrate: number | null;
+  // Percentage of inbound packets lost since the previous sample
+  packetLoss: number;
+  // Milliseconds
+  jitter: number | null;
+  roundTripTime: number | null;
+  // Remote video as received
+  frameRate: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  quality: ConnectionQuality;
+  timestamp: number;
+}
+
+interface Counters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+const DEFAULT_INTERVAL_MS = 2000;
+
+/**
+ * Rough call-quality bucket from loss and round-trip time, in the spirit of
+ * the thresholds most conferencing UIs use for their signal bars.
+ */
+export function rateQuality(packetLoss: number, roundTripTime: number | null): ConnectionQuality {
+  if (roundTripTime === null) return 'unknown';
+  if (packetLoss < 1 && roundTripTime < 150) return 'excellent';
+  if (packetLoss < 3 && roundTripTime < 300) return 'good';
+  if (packetLoss < 8 && roundTripTime < 500) return 'poor';
+  return 'bad';
+}
+
+export class StatsCollector {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // peerId -> counters from the previous sample, used to turn totals into rates
+  private previous: Map<string, Counters> = new Map();
+
+  constructor(
+    private getConnections: () => Map<string, { connection: RTCPeerConnection }>,
+    private onStats: (stats: Map<string, PeerStats>) => void,
+    private intervalMs: number = DEFAULT_INTERVAL_MS
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.collect().catch(error => console.error('Failed to collect stats:', error));
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.previous.clear();
+  }
+
+  private async collect(): Promise<void> {
+    const connections = this.getConnections();
+    const results = new Map<string, PeerStats>();
+
+    await Promise.all(Array.from(connections.entries()).map(async ([peerId, { connection }]) => {
+      if (connection.connectionState === 'closed') return;
+
+      try {
+        const report = await connection.getStats();
+        results.set(peerId, this.summarize(peerId, report));
+      } catch (error) {
+        console.warn(`Could not read stats for ${peerId}:`, error);
+      }
+    }));
+
+    // Forget peers that are gone so a reused id starts from a clean baseline
+    this.previous.forEach((_, peerId) => {
+      if (!connections.has(peerId)) this.previous.delete(peerId);
+    });
+
+    this.onStats(results);
+  }
+
+  private summarize(peerId: string, report: RTCStatsReport): PeerStats {
+    const counters: Counters = {
+      timestamp: 0,
+      bytesReceived: 0,
+      bytesSent: 0,
+      packetsReceived: 0,
+      packetsLost: 0
+    };
+
+    let jitter: number | null = null;
+    let roundTripTime: number | null = null;
+    let availableOutgoingBitrate: number | null = null;
+    let frameRate: number | null = null;
+    let frameWidth: number | null = null;
+    let frameHeight: number | null = null;
+
+    report.forEach((stat) => {
+      counters.timestamp = Math.max(counters.timestamp, stat.timestamp);
+
+      if (stat.type === 'inbound-rtp') {
+        counters.bytesReceived += stat.bytesReceived ?? 0;
+        counters.packetsReceived += stat.packetsReceived ?? 0;
+        counters.packetsLost += stat.packetsLost ?? 0;
+
+        if (typeof stat.jitter === 'number') {
+          jitter = Math.max(jitter ?? 0, stat.jitter * 1000);
+        }
+
+        if (stat.kind === 'video') {
+          frameRate = stat.framesPerSecond ?? frameRate;
+          frameWidth = stat.frameWidth ?? frameWidth;
+          frameHeight = stat.frameHeight ?? frameHeight;
+        }
+      } else if (stat.type === 'outbound-rtp') {
+        counters.bytesSent += stat.bytesSent ?? 0;
+      } else if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+        if (typeof stat.currentRoundTripTime === 'number') {
+          roundTripTime = stat.currentRoundTripTime * 1000;
+        }
+        if (typeof stat.availableOutgoingBitrate === 'number') {
+          availableOutgoingBitrate = stat.availableOutgoingBitrate / 1000;
+        }
+      }
+    });
+
+    const previous = this.previous.get(peerId);
+    this.previous.set(peerId, counters);
+
+    let inboundBitrate = 0;
+    let outboundBitrate = 0;
+    let packetLoss = 0;
+
+    if (previous && counters.timestamp > previous.timestamp) {
+      const seconds = (counters.timestamp - previous.timestamp) / 1000;
+      inboundBitrate = Math.max(0, (counters.bytesReceived - previous.bytesReceived) * 8 / 1000 / seconds);
+      outboundBitrate = Math.max(0, (counters.bytesSent - previous.bytesSent) * 8 / 1000 / seconds);
+
+      const received = counters.packetsReceived - previous.packetsReceived;
+      const lost = counters.packetsLost - previous.packetsLost;
+      if (received + lost > 0) {
+        packetLoss = Math.max(0, lost / (received + lost) * 100);
+      }
+    }
+
+    return {
+      peerId,
+      inboundBitrate,
+      outboundBitrate,
+      availableOutgoingBitrate,
+      packetLoss,
+      jitter,
+      roundTripTime,
+      frameRate,
+      frameWidth,
+      frameHeight,
+      quality: rateQuality(packetLoss, roundTripTime),
+      timestamp: counters.timestamp
+    };
+  }
+}
@@ -0,0 +1,430 @@
+// lib/validation.ts - runtime schemas for everything that crosses a trust boundary
+//
+// The TypeScript contract in ./signaling only holds if the other side is well behaved.
+// Every inbound Socket.IO payload and data-channel message is parsed here first;
+// anything that does not match is dropped, counted and logged with the sender id.
+import { z } from 'zod';
+import { CHAT_REACTIONS, LIVE_REACTIONS, PARTICIPANT_ROLES, ROOM_JOIN_ERROR_CODES } from './signaling';
+import type {
+  ChatHistoryAck,
+  ChatMessage,
+  CreateInviteAck,
+  DataChannelMessage,
+  HandChangedPayload,
+  HostChangedPayload,
+  IceConfigAck,
+  MediaDisabledPayload,
+  MediaTogglePayload,
+  Participant,
+  ReactionPayload,
+  RoleChangedPayload,
+  RoomJoinAck,
+  ScreenShareStartedPayload,
+  ScreenShareStoppedPayload,
+  UnmuteRequestedPayload,
+  UserJoinedPayload,
+  UserLeftPayload,
+  UserResumedPayload,
+  VideoSizePayload,
+  WaitingRoomPayload,
+  WebRTCAnswerPayload,
+  WebRTCIceCandidatePayload,
+  WebRTCOfferPayload
+} from './signaling';
+
+const MAX_SDP_LENGTH = 100_000;
+export const MAX_CHAT_LENGTH = 2_000;
+export const MAX_HISTORY_PAGE = 100;
+export const MAX_FILE_SIZE = 256 * 1024 * 1024;
+const MAX_MENTIONS = 20;
+// Enforced by the server too, so a join response always parses
+export const MAX_PARTICIPANTS = 100;
+// The server turns away waiters past this, so the list it sends hosts always parses
+export const MAX_WAITING = 200;
+
+const id = z.string().min(1).max(128);
+const userName = z.string().trim().min(1).max(64);
+const roomId = z.string().trim().min(1).max(32);
+// base64url, as issued by RoomManager.createInvite
+const inviteToken = z.string().regex(/^[\w-]{1,64}$/);
+// Rendered video dimensions in device pixels; 8K is a generous ceiling
+const videoDimension = z.number().int().min(0).max(7680);
+const chatFormat = z.enum(['plain', 'markdown']);
+const chatReaction = z.enum(CHAT_REACTIONS);
+const liveReaction = z.enum(LIVE_REACTIONS);
+const epochMs = z.number().int().positive();
+const mediaKind = z.enum(['audio', 'video']);
+const role = z.enum(PARTICIPANT_ROLES);
+
+/* -------------------------------------------------------------------------- */
+/*                                   WEBRTC                                   */
+/* -------------------------------------------------------------------------- */
+
+export const sessionDescriptionSchema: z.ZodType<RTCSessionDescriptionInit> = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().max(MAX_SDP_LENGTH).optional()
+});
+
+export const iceCandidateSchema: z.ZodType<RTCIceCandidateInit> = z.object({
+  candidate: z.string().max(2_048).optional(),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().min(0).max(1_024).nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional()
+});
+
+/* -------------------------------------------------------------------------- */
+/*                           SERVER -> CLIENT EVENTS                          */
+/* -------------------------------------------------------------------------- */
+
+export const chatMessageSchema: z.ZodType<ChatMessage> = z.object({
+  id,
+  userId: id,
+  userName,
+  message: z.string().max(MAX_CHAT_LENGTH),
+  timestamp: z.iso.datetime(),
+  type: z.enum(['text', 'system']),
+  format: chatFormat.optional(),
+  mentions: z.array(z.object({ userId: id, userName })).max(MAX_MENTIONS).optional(),
+  reactions: z.partialRecord(chatReaction, z.array(id).max(100)).optional(),
+  editedAt: z.iso.datetime().optional(),
+  deletedAt: z.iso.datetime().optional(),
+  recipientId: id.optional()
+}).refine(message => message.message.length > 0 || message.deletedAt !== undefined, {
+  message: 'Only deleted messages may be empty',
+  path: ['message']
+});
+
+export const participantSchema: z.ZodType<Participant> = z.object({
+  id: z.string().nullable(),
+  userId: id,
+  userName,
+  socketId: id,
+  role,
+  isVideoOn: z.boolean(),
+  isAudioOn: z.boolean(),
+  isScreenSharing: z.boolean().optional(),
+  screenStreamId: id.optional(),
+  handRaisedAt: epochMs.optional()
+});
+
+// Pending and failed acks share `success: false`, so this is a plain union
+export const roomJoinAckSchema: z.ZodType<RoomJoinAck> = z.union([
+  z.object({
+    success: z.literal(true),
+    socketId: id,
+    roomId,
+    userName,
+    hostId: id,
+    userId: id,
+    isHost: z.boolean(),
+    role,
+    isWaitingRoomEnabled: z.boolean(),
+    isLocked: z.boolean(),
+    participants: z.array(participantSchema).max(MAX_PARTICIPANTS),
+    resumeToken: z.string().min(1).max(256),
+    chatHistory: z.array(chatMessageSchema).max(MAX_HISTORY_PAGE),
+    hasMoreHistory: z.boolean()
+  }),
+  z.object({
+    success: z.literal(false),
+    pending: z.literal(true),
+    roomId
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.string().max(500),
+    code: z.enum(ROOM_JOIN_ERROR_CODES).optional()
+  })
+]);
+
+export const chatHistoryAckSchema: z.ZodType<ChatHistoryAck> = z.discriminatedUnion('success', [
+  z.object({
+    success: z.literal(true),
+    messages: z.array(chatMessageSchema).max(MAX_HISTORY_PAGE),
+    hasMore: z.boolean()
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.string().max(500)
+  })
+]);
+
+export const iceConfigAckSchema: z.ZodType<IceConfigAck> = z.discriminatedUnion('success', [
+  z.object({
+    success: z.literal(true),
+    iceServers: z.array(z.object({
+      urls: z.union([z.string().max(512), z.array(z.string().max(512)).max(20)]),
+      username: z.string().max(512).optional(),
+      credential: z.string().max(512).optional()
+    })).max(20),
+    ttl: z.number().positive(),
+    expiresAt: z.number().positive()
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.string().max(500)
+  })
+]);
+
+export const createInviteAckSchema: z.ZodType<CreateInviteAck> = z.discriminatedUnion('success', [
+  z.object({
+    success: z.literal(true),
+    token: inviteToken,
+    expiresAt: epochMs
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.string().max(500)
+  })
+]);
+
+export const userJoinedSchema: z.ZodType<UserJoinedPayload> = z.object({
+  userId: id,
+  socketId: id,
+  userName,
+  role,
+  isVideoOn: z.boolean(),
+  isAudioOn: z.boolean(),
+  isScreenSharing: z.boolean().optional()
+});
+
+export const userLeftSchema: z.ZodType<UserLeftPayload> = z.object({
+  userId: id,
+  socketId: id
+});
+
+export const userResumedSchema: z.ZodType<UserResumedPayload> = z.object({
+  userId: id,
+  socketId: id,
+  previousSocketId: id
+});
+
+export const mediaToggleSchema: z.ZodType<MediaTogglePayload> = z.object({
+  userId: id,
+  state: z.boolean()
+});
+
+export const screenShareStartedSchema: z.ZodType<ScreenShareStartedPayload> = z.object({
+  userId: id,
+  socketId: id,
+  streamId: id
+});
+
+export const screenShareStoppedSchema: z.ZodType<ScreenShareStoppedPayload> = z.object({
+  userId: id
+});
+
+export const handChangedSchema: z.ZodType<HandChangedPayload> = z.object({
+  userId: id,
+  raisedAt: epochMs.nullable()
+});
+
+export const reactionSchema: z.ZodType<ReactionPayload> = z.object({
+  userId: id,
+  emoji: liveReaction
+});
+
+export const webrtcOfferSchema: z.ZodType<WebRTCOfferPayload> = z.object({
+  offer: sessionDescriptionSchema,
+  from: id
+});
+
+export const webrtcAnswerSchema: z.ZodType<WebRTCAnswerPayload> = z.object({
+  answer: sessionDescriptionSchema,
+  from: id
+});
+
+export const webrtcIceCandidateSchema: z.ZodType<WebRTCIceCandidatePayload> = z.object({
+  candidate: iceCandidateSchema,
+  from: id
+});
+
+export const videoSizeSchema: z.ZodType<VideoSizePayload> = z.object({
+  width: videoDimension,
+  height: videoDimension,
+  from: id
+});
+
+export const roomLockedSchema = z.object({ isLocked: z.boolean() });
+
+export const kickedSchema = z.object({ reason: z.string().max(500) });
+
+export const joinDeniedSchema = z.object({ reason: z.string().max(500) });
+
+export const waitingRoomSchema: z.ZodType<WaitingRoomPayload> = z.object({
+  isEnabled: z.boolean(),
+  waiting: z.array(z.object({
+    requestId: id,
+    userName,
+    requestedAt: epochMs
+  })).max(MAX_WAITING)
+});
+
+export const mediaDisabledSchema: z.ZodType<MediaDisabledPayload> = z.object({
+  kind: mediaKind,
+  by: userName
+});
+
+export const unmuteRequestedSchema: z.ZodType<UnmuteRequestedPayload> = z.object({
+  by: userName
+});
+
+export const hostChangedSchema: z.ZodType<HostChangedPayload> = z.object({
+  hostId: id,
+  previousHostId: id
+});
+
+export const roleChangedSchema: z.ZodType<RoleChangedPayload> = z.object({
+  userId: id,
+  role
+});
+
+/* -------------------------------------------------------------------------- */
+/*                            DATA CHANNEL MESSAGES                           */
+/* -------------------------------------------------------------------------- */
+
+export const dataChannelMessageSchema: z.ZodType<DataChannelMessage> = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('chat'), message: chatMessageSchema }),
+  z.object({
+    kind: z.literal('file-offer'),
+    transferId: id,
+    name: z.string().min(1).max(255),
+    size: z.number().int().min(1).max(MAX_FILE_SIZE),
+    mimeType: z.string().max(255),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/)
+  }),
+  z.object({ kind: z.literal('file-accept'), transferId: id, offset: z.number().int().min(0).max(MAX_FILE_SIZE) }),
+  z.object({ kind: z.literal('file-pause'), transferId: id }),
+  z.object({ kind: z.literal('file-cancel'), transferId: id }),
+  z.object({ kind: z.literal('file-complete'), transferId: id, verified: z.boolean() })
+]);
+
+/* -------------------------------------------------------------------------- */
+/*                           CLIENT -> SERVER EVENTS                          */
+/* -------------------------------------------------------------------------- */
+
+const mediaState = z.object({ isAudioOn: z.boolean(), isVideoOn: z.boolean() });
+
+export const createRoomSchema = z.object({
+  userName,
+  roomId: z.string().trim().max(32).optional(),
+  media: mediaState.optional()
+});
+
+export const joinRoomSchema = z.object({
+  roomId,
+  userName,
+  password: z.string().max(128).optional(),
+  inviteToken: inviteToken.optional(),
+  media: mediaState.optional()
+});
+
+export const resumeSessionSchema = z.object({
+  roomId,
+  userId: id,
+  resumeToken: z.string().min(1).max(256)
+});
+
+export const relayOfferSchema = z.object({ to: id, offer: sessionDescriptionSchema });
+
+export const relayAnswerSchema = z.object({ to: id, answer: sessionDescriptionSchema });
+
+export const relayIceCandidateSchema = z.object({ to: id, candidate: iceCandidateSchema });
+
+export const relayVideoSizeSchema = z.object({ to: id, width: videoDimension, height: videoDimension });
+
+export const toggleMediaSchema = z.object({ state: z.boolean() });
+
+export const startScreenShareSchema = z.object({ streamId: id });
+
+export const raiseHandSchema = z.object({ raised: z.boolean() });
+
+export const lowerHandSchema = z.object({ roomId, targetUserId: id });
+
+export const sendReactionSchema = z.object({ emoji: liveReaction });
+
+export const sendChatMessageSchema = z.object({
+  message: z.string().trim().min(1).max(MAX_CHAT_LENGTH),
+  id: z.uuid().optional(),
+  format: chatFormat.optional(),
+  mentions: z.array(id).max(MAX_MENTIONS).optional(),
+  recipientId: id.optional()
+});
+
+export const editChatMessageSchema = z.object({
+  roomId,
+  messageId: id,
+  message: z.string().trim().min(1).max(MAX_CHAT_LENGTH),
+  format: chatFormat.optional(),
+  mentions: z.array(id).max(MAX_MENTIONS).optional()
+});
+
+export const deleteChatMessageSchema = z.object({ roomId, messageId: id });
+
+export const toggleChatReactionSchema = z.object({ roomId, messageId: id, emoji: chatReaction });
+
+export const getChatHistorySchema = z.object({
+  roomId,
+  before: id.optional(),
+  limit: z.number().int().min(1).max(MAX_HISTORY_PAGE).optional()
+});
+
+export const lockRoomSchema = z.object({ roomId, password: z.string().min(1).max(128) });
+
+export const roomIdSchema = z.object({ roomId });
+
+export const kickUserSchema = z.object({ roomId, targetUserId: id });
+
+export const disableParticipantMediaSchema = z.object({ roomId, targetUserId: id, kind: mediaKind });
+
+export const requestUnmuteSchema = z.object({ roomId, targetUserId: id });
+
+export const transferHostSchema = z.object({ roomId, targetUserId: id });
+
+export const setWaitingRoomSchema = z.object({ roomId, enabled: z.boolean() });
+
+export const waitingRequestSchema = z.object({ roomId, requestId: id });
+
+// There is one host per room; `set-role` cannot make another
+export const setRoleSchema = z.object({ roomId, targetUserId: id, role: z.enum(['co-host', 'participant']) });
+
+/* -------------------------------------------------------------------------- */
+/*                                   PARSING                                  */
+/* -------------------------------------------------------------------------- */
+
+const rejectedCounts: Map<string, number> = new Map();
+
+function extractSenderId(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const { from, socketId, userId } = data as Record<string, unknown>;
+  const sender = [from, socketId, userId].find(value => typeof value === 'string');
+  return sender as string | undefined;
+}
+
+/**
+ * Parse an inbound payload against its schema.
+ * Returns the typed payload, or null after counting and logging the rejection.
+ */
+export function parsePayload<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  context: { event: string; senderId?: string }
+): T | null {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const senderId = context.senderId ?? extractSenderId(data) ?? 'unknown';
+  rejectedCounts.set(context.event, (rejectedCounts.get(context.event) ?? 0) + 1);
+
+  console.warn(`🚫 Rejected malformed "${context.event}" from ${senderId}:`,
+    result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+
+  return null;
+}
+
+/**
+ * Rejected message counts keyed by event name, for debugging and metrics.
+ */
+export function getRejectedCounts(): Record<string, number> {
+  return Object.fromEntries(rejectedCounts);
+}
@@ -0,0 +1,304 @@
+// lib/videoEffects.ts - background blur, virtual backgrounds and lighting correction
+//
+// Runs as the local media controller's video processor, between the camera and the
+// senders. Frames come from MediaStreamTrackProcessor where the browser has it (it
+// keeps going in a background tab) and from a hidden <video> elsewhere; each one is
+// drawn to a canvas whose captured track is what peers and the self-view receive.
+// Backgrounds need to know where the person is: MediaPipe's selfie segmenter works
+// that out on the CPU, from a small copy of the frame.
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import type { TrackProcessor } from './localMedia';
+
+export type BackgroundEffect =
+  | { type: 'none' }
+  // Radius in pixels of the shrunken copy the blur is drawn from
+  | { type: 'blur'; radius: number }
+  | { type: 'image'; src: string };
+
+export interface VideoEffects {
+  background: BackgroundEffect;
+  // CSS filter percentages; 100 leaves the picture alone
+  brightness: number;
+  contrast: number;
+}
+
+export const DEFAULT_VIDEO_EFFECTS: VideoEffects = {
+  background: { type: 'none' },
+  brightness: 100,
+  contrast: 100
+};
+
+export const BLUR_RADIUS = { light: 2, strong: 5 } as const;
+
+// Drawn as SVG so the built-in backgrounds ship without image files
+const gradient = (from: string, to: string) =>
+  'data:image/svg+xml,' + encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720">' +
+    '<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">' +
+    `<stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/>` +
+    '</linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>'
+  );
+
+export const PRESET_BACKGROUNDS = [
+  { id: 'dusk', label: 'Dusk', src: gradient('#1e3a8a', '#9333ea') },
+  { id: 'forest', label: 'Forest', src: gradient('#064e3b', '#65a30d') },
+  { id: 'studio', label: 'Studio', src: gradient('#4b5563', '#111827') }
+] as const;
+
+export const hasVideoEffects = ({ background, brightness, contrast }: VideoEffects) =>
+  background.type !== 'none' || brightness !== 100 || contrast !== 100;
+
+// Served by the app, so effects work on offline networks too; put in place on install
+// by scripts/copy-mediapipe-assets.mjs, the WASM from the installed package itself
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm';
+const SEGMENTER_MODEL_URL = '/mediapipe/selfie_segmenter.tflite';
+
+const FRAME_RATE = 30;
+// Width of the copy the segmenter looks at; the mask is scaled back up, which also softens its edge
+const MASK_WIDTH = 256;
+// The blurred background is drawn from a copy this much smaller: cheaper, and softer for free
+const BLUR_SCALE = 0.25;
+
+declare global {
+  // Chromium only, and not in lib.dom yet
+  class MediaStreamTrackProcessor {
+    constructor(init: { track: MediaStreamTrack });
+    readonly readable: ReadableStream<VideoFrame>;
+  }
+}
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+// Fetched the first time a background is chosen; shared by every processor after that
+const loadSegmenter = (): Promise<ImageSegmenter> => {
+  if (!segmenterPromise) {
+    segmenterPromise = import('@mediapipe/tasks-vision')
+      .then(async ({ FilesetResolver, ImageSegmenter }) => ImageSegmenter.createFromOptions(
+        await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL),
+        {
+          baseOptions: { modelAssetPath: SEGMENTER_MODEL_URL, delegate: 'CPU' },
+          runningMode: 'VIDEO',
+          outputConfidenceMasks: true,
+          outputCategoryMask: false
+        }
+      ));
+    // Let the next attempt try again rather than keep the failure
+    segmenterPromise.catch(() => { segmenterPromise = null; });
+  }
+  return segmenterPromise;
+};
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image;
+};
+
+interface Layer {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+}
+
+const createLayer = (): Layer => {
+  const canvas = document.createElement('canvas');
+  return { canvas, context: canvas.getContext('2d')! };
+};
+
+// Resizing clears a canvas and resets its context, so only do it when the size changes
+const fitLayer = ({ canvas }: Layer, width: number, height: number): boolean => {
+  if (canvas.width === width && canvas.height === height) return false;
+  canvas.width = width;
+  canvas.height = height;
+  return true;
+};
+
+export class VideoEffectsProcessor implements TrackProcessor {
+  private effects: VideoEffects = DEFAULT_VIDEO_EFFECTS;
+  private source: MediaStreamTrack | null = null;
+  private output: MediaStreamTrack | null = null;
+  // Bumped to end the frame loop of a source we no longer read
+  private run = 0;
+
+  private segmenter: ImageSegmenter | null = null;
+  private backgroundImage: HTMLImageElement | null = null;
+  private lastTimestamp = 0;
+
+  // Made on first use: the module is also loaded during server rendering
+  private layers: Record<'output' | 'person' | 'blurred' | 'segmentInput' | 'mask', Layer> | null = null;
+  private maskPixels: ImageData | null = null;
+
+  /**
+   * Takes effect on the next frame. Resolves once anything the effects need (the
+   * segmentation model, a background image) has loaded; until then the background
+   * is left as it is.
+   */
+  async setEffects(effects: VideoEffects): Promise<void> {
+    this.effects = effects;
+    const { background } = effects;
+    if (background.type === 'none') return;
+
+    if (background.type === 'image') {
+      const image = await loadImage(background.src);
+      // A quicker choice may have replaced this one while it loaded
+      if (this.effects.background === background) this.backgroundImage = image;
+    }
+
+    this.segmenter = await loadSegmenter();
+  }
+
+  process(source: MediaStreamTrack): MediaStreamTrack {
+    if (source === this.source && this.output?.readyState === 'live') return this.output;
+
+    this.layers ??= {
+      output: createLayer(),
+      person: createLayer(),
+      blurred: createLayer(),
+      segmentInput: createLayer(),
+      mask: createLayer()
+    };
+
+    this.source = source;
+    const run = ++this.run;
+    if (typeof MediaStreamTrackProcessor !== 'undefined') this.readFrames(source, run);
+    else this.readFromVideo(source, run);
+
+    if (this.output?.readyState !== 'live') {
+      this.output = this.layers.output.canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+    }
+    return this.output;
+  }
+
+  stop(): void {
+    this.run++;
+    this.source = null;
+    this.output?.stop();
+    this.output = null;
+  }
+
+  private async readFrames(source: MediaStreamTrack, run: number): Promise<void> {
+    const reader = new MediaStreamTrackProcessor({ track: source }).readable.getReader();
+    try {
+      while (run === this.run) {
+        const { value: frame, done } = await reader.read();
+        if (done) break;
+
+        try {
+          this.render(frame, frame.displayWidth, frame.displayHeight);
+        } finally {
+          frame.close();
+        }
+      }
+    } catch (error) {
+      console.error('Video effects stopped:', error);
+    } finally {
+      reader.cancel().catch(() => { /* the track may already be gone */ });
+    }
+  }
+
+  private readFromVideo(source: MediaStreamTrack, run: number): void {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream([source]);
+    video.play().catch(console.error);
+
+    const tick = () => {
+      if (run !== this.run || source.readyState === 'ended') {
+        video.srcObject = null;
+        return;
+      }
+      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+        this.render(video, video.videoWidth, video.videoHeight);
+      }
+      setTimeout(tick, 1000 / FRAME_RATE);
+    };
+    tick();
+  }
+
+  private render(frame: CanvasImageSource, width: number, height: number): void {
+    const layers = this.layers;
+    if (!layers) return;
+
+    const { output, person } = layers;
+    fitLayer(output, width, height);
+
+    const { background, brightness, contrast } = this.effects;
+    output.context.filter = brightness === 100 && contrast === 100
+      ? 'none'
+      : `brightness(${brightness}%) contrast(${contrast}%)`;
+    output.context.drawImage(frame, 0, 0, width, height);
+    output.context.filter = 'none';
+
+    const mask = background.type === 'none' ? null : this.segment(width, height);
+    if (!mask) return;
+
+    // The person on their own, lit the same way
+    fitLayer(person, width, height);
+    person.context.globalCompositeOperation = 'copy';
+    person.context.drawImage(output.canvas, 0, 0);
+    person.context.globalCompositeOperation = 'destination-in';
+    person.context.drawImage(mask, 0, 0, width, height);
+    person.context.globalCompositeOperation = 'source-over';
+
+    if (background.type === 'blur') {
+      this.drawBlurred(width, height, background.radius);
+    } else if (this.backgroundImage) {
+      this.drawCover(this.backgroundImage, width, height);
+    }
+    output.context.drawImage(person.canvas, 0, 0);
+  }
+
+  // Person mask for the frame just drawn to the output; null until the segmenter has loaded
+  private segment(width: number, height: number): HTMLCanvasElement | null {
+    const layers = this.layers;
+    if (!this.segmenter || !layers) return null;
+
+    const { output, segmentInput, mask } = layers;
+    const maskHeight = Math.round(MASK_WIDTH * height / width);
+    if (fitLayer(segmentInput, MASK_WIDTH, maskHeight)) {
+      fitLayer(mask, MASK_WIDTH, maskHeight);
+      this.maskPixels = mask.context.createImageData(MASK_WIDTH, maskHeight);
+    }
+    segmentInput.context.drawImage(output.canvas, 0, 0, MASK_WIDTH, maskHeight);
+
+    // The segmenter wants strictly increasing timestamps
+    const timestamp = Math.max(performance.now(), this.lastTimestamp + 1);
+    this.lastTimestamp = timestamp;
+
+    this.segmenter.segmentForVideo(segmentInput.canvas, timestamp, (result) => {
+      const confidence = result.confidenceMasks?.[0]?.getAsFloat32Array();
+      const pixels = this.maskPixels;
+      if (!confidence || !pixels) return;
+
+      // Only alpha matters: it is what 'destination-in' keeps
+      for (let i = 0; i < confidence.length; i++) {
+        pixels.data[i * 4 + 3] = confidence[i] * 255;
+      }
+      mask.context.putImageData(pixels, 0, 0);
+    });
+    return mask.canvas;
+  }
+
+  private drawBlurred(width: number, height: number, radius: number): void {
+    const { output, blurred } = this.layers!;
+    fitLayer(blurred, Math.round(width * BLUR_SCALE), Math.round(height * BLUR_SCALE));
+    blurred.context.filter = `blur(${radius}px)`;
+    blurred.context.drawImage(output.canvas, 0, 0, blurred.canvas.width, blurred.canvas.height);
+
+    output.context.drawImage(blurred.canvas, 0, 0, width, height);
+  }
+
+  // Fills the frame like CSS object-fit: cover
+  private drawCover(image: HTMLImageElement, width: number, height: number): void {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+
+    this.layers!.output.context.drawImage(
+      image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight
+    );
+  }
+}
+
+export const videoEffects = new VideoEffectsProcessor();
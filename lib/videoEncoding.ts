@@ -0,0 +1,83 @@
+// lib/videoEncoding.ts - per-peer send quality for the camera track
+//
+// In a mesh every peer has its own RTCRtpSender, so instead of simulcast we size
+// one encoding per connection: no more resolution than the receiver's tile shows,
+// no more bitrate than our shared uplink and that connection's estimate allow.
+
+export interface VideoSize {
+  width: number;
+  height: number;
+}
+
+export interface VideoSource extends VideoSize {
+  frameRate: number;
+}
+
+export interface VideoEncodingPlan {
+  // bits per second, as RTCRtpEncodingParameters expects
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+// Total video upload we are willing to spend across all peers, kbit/s
+const MESH_UPLINK_BUDGET = 4_000;
+const MIN_VIDEO_BITRATE = 100;
+const MAX_VIDEO_BITRATE = 2_500;
+// Rough bits per pixel per frame for decent VP8/H.264 quality at conference motion levels
+const BITS_PER_PIXEL = 0.1;
+// Leave headroom below the congestion controller's estimate for audio and retransmissions
+const AVAILABLE_BITRATE_SHARE = 0.85;
+// Discrete steps keep small tile resizes from renegotiating encoder settings
+const SCALE_STEPS = [1, 1.5, 2, 3, 4, 6, 8];
+// Tiles smaller than this, or hidden ones, still get a watchable thumbnail
+const MIN_TARGET_HEIGHT = 180;
+const REDUCED_FRAME_RATE = 15;
+const REDUCED_FRAME_RATE_PEERS = 5;
+
+function pickScale(source: VideoSize, target?: VideoSize): number {
+  if (!target || !source.width || !source.height) return 1;
+
+  const height = Math.max(target.height, MIN_TARGET_HEIGHT);
+  const width = Math.max(target.width, Math.round(height * source.width / source.height));
+
+  // Tiles use object-cover, so the smaller ratio is the one that still fills the tile
+  const needed = Math.min(source.width / width, source.height / height);
+  return SCALE_STEPS.reduce((best, step) => (step <= needed ? step : best), 1);
+}
+
+/**
+ * Work out the encoding for one peer.
+ *
+ * @param target Device-pixel size the receiver renders our video at, if reported
+ * @param availableBitrate The connection's outgoing estimate in kbit/s, if known
+ * @param peerCount Number of connections sharing our uplink
+ */
+export function planVideoEncoding(
+  source: VideoSource,
+  target: VideoSize | undefined,
+  availableBitrate: number | null,
+  peerCount: number
+): VideoEncodingPlan {
+  const scaleResolutionDownBy = pickScale(source, target);
+  const sentWidth = source.width / scaleResolutionDownBy;
+  const sentHeight = source.height / scaleResolutionDownBy;
+
+  const maxFramerate = sentHeight < 360 || peerCount >= REDUCED_FRAME_RATE_PEERS
+    ? Math.min(source.frameRate, REDUCED_FRAME_RATE)
+    : source.frameRate;
+
+  let bitrate = sentWidth * sentHeight * maxFramerate * BITS_PER_PIXEL / 1000;
+  bitrate = Math.min(bitrate, MESH_UPLINK_BUDGET / Math.max(peerCount, 1));
+  if (availableBitrate !== null) {
+    bitrate = Math.min(bitrate, availableBitrate * AVAILABLE_BITRATE_SHARE);
+  }
+  bitrate = Math.min(Math.max(bitrate, MIN_VIDEO_BITRATE), MAX_VIDEO_BITRATE);
+
+  return {
+    // Round to 50 kbit/s so estimate jitter does not call setParameters every sample
+    maxBitrate: Math.round(bitrate / 50) * 50 * 1000,
+    scaleResolutionDownBy,
+    maxFramerate
+  };
+}
@@ -1,7 +1,11 @@
 // frontend/src/lib/webrtc.ts - FIXED VERSION
 import { ChatMessage, socketService } from './socket';
+import { dataChannelMessageSchema, parsePayload } from './validation';
+import { FileTransfer, FileTransferManager, isFileChannel } from './fileTransfer';
+import { PeerStats, StatsCollector } from './stats';
+import { planVideoEncoding, VideoSize } from './videoEncoding';
 
-type DisplayMediaVideoConstraints =
+export type DisplayMediaVideoConstraints =
   | boolean
   | MediaTrackConstraints & {
     displaySurface?: 'monitor' | 'window' | 'browser';
@@ -11,14 +15,42 @@ export interface PeerConnection {
   peerId: string;
   connection: RTCPeerConnection;
   stream: MediaStream | null;
+  // The peer's screen share, received on its own transceiver
+  screenStream: MediaStream | null;
+  remoteScreenTransceiver: RTCRtpTransceiver | null;
+  // Our screen share to this peer; kept across shares and set inactive in between
+  screenTransceiver: RTCRtpTransceiver | null;
   dataChannel: RTCDataChannel | null;
   pendingCandidates?: RTCIceCandidateInit[];
+  // Perfect-negotiation state
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  // Adaptive sending: what the peer renders us at, and what we last applied
+  videoSize?: VideoSize;
+  availableOutgoingBitrate: number | null;
+  appliedEncoding?: string;
 }
 
+// Used until the signaling server answers with ICE servers, or if it cannot
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
+
+// Fetch fresh TURN credentials this long before the current ones expire
+const ICE_REFRESH_MARGIN_MS = 60_000;
+// A failed ICE request is tried again after this, doubling up to the maximum
+const ICE_RETRY_MIN_MS = 5_000;
+const ICE_RETRY_MAX_MS = 5 * 60_000;
+
 export type WebRTCEvent =
   | { type: 'stream'; peerId: string; stream: MediaStream }
-  | { type: 'chat'; message: ChatMessage }
-  | { type: 'peerRemoved'; peerId: string };
+  | { type: 'screen'; peerId: string; stream: MediaStream | null }
+  | { type: 'chat'; peerId: string; message: ChatMessage }
+  | { type: 'file'; transfer: FileTransfer }
+  | { type: 'peerRemoved'; peerId: string }
+  | { type: 'stats'; stats: Map<string, PeerStats> };
 
 export class WebRTCManager {
   // Singleton instance
@@ -30,6 +62,30 @@ export class WebRTCManager {
   private userId: string = '';
   private roomId: string = '';
   private eventListeners: Array<(event: WebRTCEvent) => void> = [];
+  // peerId -> MediaStream id that peer announced for its screen share
+  private remoteScreenStreamIds: Map<string, string> = new Map();
+  private iceServers: RTCIceServer[] | null = null;
+  // What the server last gave us; kept through failed refreshes
+  private lastIceServers: RTCIceServer[] | null = null;
+  private iceRetryMs = ICE_RETRY_MIN_MS;
+  private iceConfigRequest: Promise<RTCIceServer[]> | null = null;
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private fileTransfers = new FileTransferManager({
+    sendControl: (peerId, message) => this.sendOnDataChannel(peerId, JSON.stringify(message)),
+    openChannel: (peerId, label) => {
+      const peer = this.peers.get(peerId);
+      if (!peer || peer.connection.connectionState !== 'connected') return null;
+      return peer.connection.createDataChannel(label, { ordered: true });
+    },
+    onUpdate: transfer => this.emitEvent({ type: 'file', transfer })
+  });
+  private statsCollector = new StatsCollector(
+    () => this.peers,
+    stats => {
+      this.adaptVideoEncodings(stats);
+      this.emitEvent({ type: 'stats', stats });
+    }
+  );
 
   /**
    * Get singleton instance
@@ -49,7 +105,8 @@ export class WebRTCManager {
   }
 
   /**
-   * Reset the singleton (for testing or cleanup)
+   * Clean up and drop the singleton; call on leaving a room, since the next
+   * getInstance() must be for the new user and room
    */
   static reset(): void {
     if (WebRTCManager.instance) {
@@ -66,9 +123,10 @@ export class WebRTCManager {
     this.roomId = roomId;
     this.setupSignalingHandlers();
 
-    // Expose for debugging
+    // Expose for debugging, and warm up the ICE configuration before the first peer
     if (typeof window !== 'undefined') {
       window.webrtcManager = this;
+      this.loadIceServers();
     }
   }
 
@@ -106,60 +164,90 @@ export class WebRTCManager {
     peer.pendingCandidates = [];
   }
 
+  /**
+   * Perfect negotiation: exactly one side of every pair is "polite".
+   * Both sides compare the same two socket ids, so they always disagree on who it is.
+   */
+  private isPolite(peerId: string): boolean {
+    return (socketService.getSocketId() ?? '') < peerId;
+  }
+
+  /**
+   * Apply a remote offer or answer following the polite/impolite pattern.
+   * The impolite side ignores colliding offers; the polite side rolls back implicitly.
+   */
+  private async handleRemoteDescription(peer: PeerConnection, description: RTCSessionDescriptionInit): Promise<void> {
+    const connection = peer.connection;
+
+    const readyForOffer =
+      !peer.makingOffer &&
+      (connection.signalingState === 'stable' || peer.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    peer.ignoreOffer = !this.isPolite(peer.peerId) && offerCollision;
+    if (peer.ignoreOffer) {
+      console.log(`⚠️ Ignoring colliding offer from ${peer.peerId} (impolite side)`);
+      return;
+    }
+
+    // An answer is only meaningful while our own offer is outstanding
+    if (description.type === 'answer' && connection.signalingState !== 'have-local-offer') {
+      console.log(`⚠️ Ignoring stale answer from ${peer.peerId} (state: ${connection.signalingState})`);
+      return;
+    }
+
+    peer.isSettingRemoteAnswerPending = description.type === 'answer';
+    try {
+      await connection.setRemoteDescription(description);
+    } finally {
+      peer.isSettingRemoteAnswerPending = false;
+    }
+    await this.flushPendingIce(peer);
+    console.log(`✅ Remote ${description.type} applied for ${peer.peerId}`);
+
+    if (description.type === 'offer') {
+      await connection.setLocalDescription();
+
+      const socketId = socketService.getSocketId();
+      if (socketId && connection.localDescription) {
+        socketService.sendWebRTCAnswer(peer.peerId, connection.localDescription.toJSON(), socketId);
+      } else {
+        console.error('Socket ID not found');
+      }
+    }
+  }
+
+  /**
+   * Send an offer for whatever changed on the connection: initial setup,
+   * added/removed tracks, new transceivers or an ICE restart.
+   */
+  private async negotiate(peer: PeerConnection): Promise<void> {
+    try {
+      peer.makingOffer = true;
+      await peer.connection.setLocalDescription();
+
+      const socketId = socketService.getSocketId();
+      if (socketId && peer.connection.localDescription) {
+        console.log(`📤 Sending offer to ${peer.peerId}`);
+        socketService.sendWebRTCOffer(peer.peerId, peer.connection.localDescription.toJSON(), socketId);
+      }
+    } catch (error) {
+      console.error(`❌ Error creating offer for ${peer.peerId}:`, error);
+    } finally {
+      peer.makingOffer = false;
+    }
+  }
+
   private setupSignalingHandlers(): void {
     // Handle incoming WebRTC offers
     socketService.onWebRTCOffer(async ({ offer, from }) => {
       console.log('📨 Received WebRTC offer from:', from);
 
       try {
-        if (!this.peers.has(from)) {
-          await this.createPeer(from, false);
-        }
-
-        const peer = this.peers.get(from);
-        if (peer && peer.connection) {
-          const connection = peer.connection;
-
-          // Check if we need to handle offer collision
-          if (connection.signalingState !== 'stable') {
-            console.log(`⚠️ Offer collision detected, state: ${connection.signalingState}`);
-
-            if (connection.signalingState === 'have-local-offer') {
-              // Roll back and accept incoming offer
-              try {
-                await connection.setLocalDescription({ type: 'rollback' });
-                console.log('🔄 Rolled back local offer to accept incoming');
-              } catch (error) {
-                console.error('Error rolling back:', error);
-                return;
-              }
-            }
-          }
-
-          // Set remote description
-          await connection.setRemoteDescription(new RTCSessionDescription(offer));
-          await this.flushPendingIce(peer);
-          console.log('✅ Remote description set');
-
-          // Create and set local description
-          const answer = await connection.createAnswer();
-          await connection.setLocalDescription(answer);
-          console.log('✅ Local description set');
-
-          // Send answer
-          const socketId = socketService.getSocketId();
-          if (socketId) {
-            socketService.sendWebRTCAnswer(from, answer, socketId);
-          } else {
-            console.error('Socket ID not found');
-          }
-        }
+        const peer = this.peers.get(from) ?? await this.createPeer(from, false);
+        await this.handleRemoteDescription(peer, offer);
       } catch (error) {
         console.error('❌ Error handling offer:', error);
-        // Clean up on error
-        if (this.peers.has(from)) {
-          this.removePeer(from);
-        }
       }
     });
 
@@ -168,14 +256,12 @@ export class WebRTCManager {
       console.log('📨 Received WebRTC answer from:', from);
 
       const peer = this.peers.get(from);
-      if (peer && peer.connection) {
-        try {
-          await peer.connection.setRemoteDescription(new RTCSessionDescription(answer));
-          await this.flushPendingIce(peer);
-          console.log('✅ Answer processed');
-        } catch (error) {
-          console.error('❌ Error handling answer:', error);
-        }
+      if (!peer) return;
+
+      try {
+        await this.handleRemoteDescription(peer, answer);
+      } catch (error) {
+        console.error('❌ Error handling answer:', error);
       }
     });
 
@@ -194,15 +280,136 @@ export class WebRTCManager {
       }
 
       try {
-        await peer.connection.addIceCandidate(new RTCIceCandidate(candidate));
+        await peer.connection.addIceCandidate(candidate);
       } catch (error) {
-        console.error('Error adding ICE candidate:', error);
+        // Candidates for an offer we deliberately ignored are expected to fail
+        if (!peer.ignoreOffer) {
+          console.error('Error adding ICE candidate:', error);
+        }
       }
     });
+
+    // The peer resized the tile showing our video
+    socketService.onVideoSize(({ width, height, from }) => {
+      const peer = this.peers.get(from);
+      if (!peer) return;
+
+      peer.videoSize = { width, height };
+      this.applyVideoEncoding(peer);
+    });
+  }
+
+  private adaptVideoEncodings(stats: Map<string, PeerStats>): void {
+    stats.forEach((stat, peerId) => {
+      const peer = this.peers.get(peerId);
+      if (!peer) return;
+
+      peer.availableOutgoingBitrate = stat.availableOutgoingBitrate;
+      this.applyVideoEncoding(peer);
+    });
+  }
+
+  /**
+   * Fit the camera encoding for one peer to its tile size, our uplink share and
+   * the connection's bandwidth estimate. Only calls setParameters when the plan changes.
+   */
+  private async applyVideoEncoding(peer: PeerConnection): Promise<void> {
+    const sender = peer.connection.getSenders()
+      .find(s => s.track?.kind === 'video' && s !== peer.screenTransceiver?.sender);
+    const track = sender?.track;
+    if (!sender || !track) return;
+
+    const parameters = sender.getParameters();
+    // Encodings only exist once the transceiver has been negotiated
+    if (!parameters.encodings?.length) return;
+
+    const settings = track.getSettings();
+    const plan = planVideoEncoding(
+      {
+        width: settings.width ?? 0,
+        height: settings.height ?? 0,
+        frameRate: settings.frameRate ?? 30
+      },
+      peer.videoSize,
+      peer.availableOutgoingBitrate,
+      this.peers.size
+    );
+
+    const key = JSON.stringify(plan);
+    if (peer.appliedEncoding === key) return;
+
+    parameters.encodings.forEach(encoding => Object.assign(encoding, plan));
+
+    try {
+      await sender.setParameters(parameters);
+      peer.appliedEncoding = key;
+      console.log(`🎚️ Video encoding for ${peer.peerId}:`, plan);
+    } catch (error) {
+      console.warn(`Failed to apply video encoding for ${peer.peerId}:`, error);
+    }
+  }
+
+  /**
+   * Fetch the ICE server list (with short-lived TURN credentials) from the signaling server.
+   * Concurrent callers share one request; a refresh is scheduled before expiry.
+   */
+  loadIceServers(): Promise<RTCIceServer[]> {
+    if (this.iceServers) return Promise.resolve(this.iceServers);
+    if (this.iceConfigRequest) return this.iceConfigRequest;
+
+    this.iceConfigRequest = this.fetchIceConfig().finally(() => {
+      this.iceConfigRequest = null;
+    });
+    return this.iceConfigRequest;
+  }
+
+  private async fetchIceConfig(): Promise<RTCIceServer[]> {
+    try {
+      const config = await socketService.getIceConfig(this.roomId);
+      this.iceServers = config.iceServers;
+      this.lastIceServers = config.iceServers;
+      this.iceRetryMs = ICE_RETRY_MIN_MS;
+      this.scheduleIceRefresh(Math.max(config.expiresAt - Date.now() - ICE_REFRESH_MARGIN_MS, ICE_REFRESH_MARGIN_MS));
+      console.log(`🧊 Loaded ${config.iceServers.length} ICE server entries`);
+    } catch (error) {
+      // The last servers we were given are still valid for the refresh margin, and
+      // even expired TURN beats none; fallback STUN is only for when we never had any
+      console.error(`Failed to load ICE configuration, retrying in ${this.iceRetryMs / 1000}s:`, error);
+      this.iceServers = this.lastIceServers ?? FALLBACK_ICE_SERVERS;
+      this.scheduleIceRefresh(this.iceRetryMs);
+      this.iceRetryMs = Math.min(this.iceRetryMs * 2, ICE_RETRY_MAX_MS);
+    }
+
+    return this.iceServers;
+  }
+
+  private scheduleIceRefresh(delay: number): void {
+    if (this.iceRefreshTimer) clearTimeout(this.iceRefreshTimer);
+
+    this.iceRefreshTimer = setTimeout(async () => {
+      const previous = this.iceServers;
+      this.iceServers = null;
+      const iceServers = await this.loadIceServers();
+      // A failed refresh kept what we had; there is nothing new to hand out
+      if (iceServers === previous) return;
+
+      // Existing connections pick the new credentials up on their next ICE restart
+      this.peers.forEach(peer => {
+        try {
+          peer.connection.setConfiguration({ ...peer.connection.getConfiguration(), iceServers });
+        } catch (error) {
+          console.error(`Failed to update ICE servers for ${peer.peerId}:`, error);
+        }
+      });
+    }, delay);
   }
 
   async createPeer(peerId: string, isInitiator: boolean): Promise<PeerConnection> {
     console.log(`🔗 CREATE_PEER: ${peerId}, initiator: ${isInitiator}`);
+
+    // Must stay the only await before the peer is stored: everything below runs
+    // synchronously, so concurrent calls for the same peer cannot both create one
+    const iceServers = await this.loadIceServers();
     
     // Check for existing peer
     const existingPeer = this.peers.get(peerId);
@@ -226,16 +433,29 @@ export class WebRTCManager {
 
     // WebRTC configuration
     const configuration: RTCConfiguration = {
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
+      iceServers
     };
 
     // Create RTCPeerConnection
     const connection = new RTCPeerConnection(configuration);
     console.log(`✅ RTCPeerConnection created for ${peerId}`);
 
+    // Handlers read `peer.peerId` rather than closing over `peerId`, because the
+    // remote socket id changes when that participant resumes a dropped session
+    const peer: PeerConnection = {
+      peerId,
+      connection,
+      stream: null,
+      screenStream: null,
+      remoteScreenTransceiver: null,
+      screenTransceiver: null,
+      dataChannel: null,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      availableOutgoingBitrate: null
+    };
+
     // Add local tracks only once
     if (this.localStream) {
       this.localStream.getTracks().forEach(track => {
@@ -255,13 +475,33 @@ export class WebRTCManager {
       });
     }
 
+    if (this.screenStream) {
+      this.attachScreenShare(peer);
+    }
+
+    // Make sure an initiator without local media still asks for the remote side's
+    if (isInitiator) {
+      (['audio', 'video'] as const).forEach(kind => {
+        if (!connection.getTransceivers().some(t => t.receiver.track.kind === kind)) {
+          connection.addTransceiver(kind, { direction: 'recvonly' });
+        }
+      });
+    }
+
+    // Every change that needs an offer (tracks, transceivers, data channel, ICE restart)
+    // funnels through here, regardless of which side caused it
+    connection.onnegotiationneeded = () => {
+      console.log(`🤝 Negotiation needed with ${peer.peerId}`);
+      this.negotiate(peer);
+    };
+
     // Create data channel if initiator
-    let dataChannel: RTCDataChannel | null = null;
     if (isInitiator) {
       try {
-        dataChannel = connection.createDataChannel('chat', {
+        peer.dataChannel = connection.createDataChannel('chat', {
           ordered: true
         });
+        this.setupDataChannel(peer.dataChannel, peer);
         console.log(`💬 Created data channel for ${peerId}`);
       } catch (error) {
         console.error(`❌ Failed to create data channel:`, error);
@@ -270,24 +510,27 @@ export class WebRTCManager {
 
     // Setup data channel handler
     connection.ondatachannel = (event) => {
-      console.log(`💬 Data channel received for ${peerId}:`, event.channel.label);
+      console.log(`💬 Data channel received for ${peer.peerId}:`, event.channel.label);
       const channel = event.channel;
-      this.setupDataChannel(channel, peerId);
-      
-      // Update the peer object
-      const peer = this.peers.get(peerId);
-      if (peer) {
-        peer.dataChannel = channel;
+
+      if (isFileChannel(channel.label)) {
+        this.fileTransfers.handleChannel(peer.peerId, channel);
+        return;
       }
+
+      this.setupDataChannel(channel, peer);
+
+      // Update the peer object
+      peer.dataChannel = channel;
     };
 
     // ICE candidate handling
     connection.onicecandidate = (event) => {
       if (event.candidate) {
-        console.log(`🧊 ICE candidate for ${peerId}:`, event.candidate.type);
+        console.log(`🧊 ICE candidate for ${peer.peerId}:`, event.candidate.type);
         const socketId = socketService.getSocketId();
         if (socketId) {
-          socketService.sendWebRTCIceCandidate(peerId, event.candidate.toJSON(), socketId);
+          socketService.sendWebRTCIceCandidate(peer.peerId, event.candidate.toJSON(), socketId);
         }
       }
     };
@@ -295,15 +538,23 @@ export class WebRTCManager {
     // Track handler for incoming media
     connection.ontrack = (event) => {
    console.log('🔥 ONTRACK FIRED 🔥', {
-    peerId,
+    peerId: peer.peerId,
     trackKind: event.track.kind,
     streamId: event.streams[0]?.id,
     trackId: event.track.id
   });
 
 
-      const peer = this.peers.get(peerId);
-      if (peer) {
+      // Screen shares are announced over signaling before their track is added
+      const streamId = event.streams[0]?.id;
+      if (streamId && streamId === this.remoteScreenStreamIds.get(peer.peerId)) {
+        peer.remoteScreenTransceiver = event.transceiver;
+        peer.screenStream = new MediaStream([event.track]);
+        this.emitEvent({ type: 'screen', peerId: peer.peerId, stream: peer.screenStream });
+        return;
+      }
+
+      if (this.peers.get(peer.peerId) === peer) {
         // Create or reuse stream
         if (!peer.stream) {
           peer.stream = new MediaStream();
@@ -326,11 +577,11 @@ export class WebRTCManager {
         // Emit stream event
         this.emitEvent({
           type: 'stream',
-          peerId: peerId,
+          peerId: peer.peerId,
           stream: peer.stream
         });
 
-        console.log(`✅ Stream updated for ${peerId}, tracks:`, 
+        console.log(`✅ Stream updated for ${peer.peerId}, tracks:`, 
           peer.stream.getTracks().map(t => t.kind));
       }
     };
@@ -338,59 +589,34 @@ export class WebRTCManager {
     // Connection state monitoring
     connection.onconnectionstatechange = () => {
       const state = connection.connectionState;
-      console.log(`🔗 Connection state with ${peerId}: ${state}`);
+      console.log(`🔗 Connection state with ${peer.peerId}: ${state}`);
 
       if (state === 'failed' || state === 'disconnected') {
         setTimeout(() => {
           if (connection.connectionState === 'disconnected' || 
               connection.connectionState === 'failed') {
-            this.restartIce(peerId);
+            this.restartIce(peer.peerId);
           }
         }, 2000);
       } else if (state === 'closed') {
-        this.removePeer(peerId);
+        this.removePeer(peer.peerId);
       }
     };
 
-    // Create and store peer
-    const peer: PeerConnection = {
-      peerId,
-      connection,
-      stream: null,
-      dataChannel
-    };
-
+    // Store peer
     this.peers.set(peerId, peer);
-
-    // Create offer if initiator
-    if (isInitiator) {
-      try {
-        console.log(`📤 Creating offer for ${peerId}...`);
-        const offer = await connection.createOffer({
-          offerToReceiveAudio: true,
-          offerToReceiveVideo: true
-        });
-        
-        await connection.setLocalDescription(offer);
-        console.log(`✅ Offer created for ${peerId}`);
-        
-        const socketId = socketService.getSocketId();
-        if (socketId) {
-          socketService.sendWebRTCOffer(peerId, offer, socketId);
-        }
-      } catch (error) {
-        console.error(`❌ Error creating offer for ${peerId}:`, error);
-        this.removePeer(peerId);
-        throw error;
-      }
-    }
+    this.statsCollector.start();
 
     return peer;
   }
 
+  /**
+   * Flag the next offer as an ICE restart; onnegotiationneeded sends it once
+   * the connection is back in a stable signaling state.
+   */
   private restartIce(peerId: string): void {
     const peer = this.peers.get(peerId);
-    if (peer && peer.connection.signalingState === 'stable') {
+    if (peer && peer.connection.signalingState !== 'closed') {
       console.log(`🔄 Restarting ICE for ${peerId}`);
       try {
         peer.connection.restartIce();
@@ -400,24 +626,39 @@ export class WebRTCManager {
     }
   }
 
-  private setupDataChannel(channel: RTCDataChannel, peerId: string): void {
+  private setupDataChannel(channel: RTCDataChannel, peer: PeerConnection): void {
     channel.onopen = () => {
-      console.log(`💬 Data channel opened with ${peerId}`);
+      console.log(`💬 Data channel opened with ${peer.peerId}`);
     };
 
     channel.onclose = () => {
-      console.log(`💬 Data channel closed with ${peerId}`);
+      console.log(`💬 Data channel closed with ${peer.peerId}`);
     };
 
     channel.onmessage = (event) => {
+      if (typeof event.data !== 'string') {
+        console.warn(`🚫 Ignoring non-text data channel message from ${peer.peerId}`);
+        return;
+      }
+
+      let data: unknown;
       try {
-        const message = JSON.parse(event.data);
+        data = JSON.parse(event.data);
+      } catch {
+        data = undefined;
+      }
+
+      const message = parsePayload(dataChannelMessageSchema, data, { event: 'datachannel:chat', senderId: peer.peerId });
+      if (!message) return;
+
+      if (message.kind === 'chat') {
         this.emitEvent({
           type: 'chat',
-          message: message as ChatMessage
+          peerId: peer.peerId,
+          message: message.message
         });
-      } catch (error) {
-        console.error('Error parsing data channel message:', error);
+      } else {
+        this.fileTransfers.handleControl(peer.peerId, message);
       }
     };
   }
@@ -430,25 +671,230 @@ export class WebRTCManager {
 
     this.localStream = stream;
 
-    // Update existing peer connections with new tracks
-    this.peers.forEach((peer, peerId) => {
+    // Update existing peer connections with new tracks. Swapping a track on an
+    // existing sender needs no renegotiation; anything that adds or re-directs a
+    // transceiver fires onnegotiationneeded, which sends the offer.
+    const replacements: Promise<void>[] = [];
+    this.peers.forEach((peer) => {
+      // A kind missing from the stream (the camera is off) empties its sender but
+      // keeps it, so turning the camera back on is another plain swap
+      peer.connection.getSenders().forEach(sender => {
+        if (
+          sender.track &&
+          sender !== peer.screenTransceiver?.sender &&
+          !stream.getTracks().some(track => track.kind === sender.track?.kind)
+        ) {
+          replacements.push(this.replaceSenderTrack(peer.peerId, sender, null));
+        }
+      });
+
       stream.getTracks().forEach(track => {
-        const sender = peer.connection.getSenders()
-          .find(s => s.track && s.track.kind === track.kind);
+        const connection = peer.connection;
+        // The screen-share sender also carries video, so it must not take the camera
+        const sender = connection.getSenders()
+          .find(s => s.track?.kind === track.kind && s !== peer.screenTransceiver?.sender);
 
         if (sender) {
-          sender.replaceTrack(track);
+          replacements.push(this.replaceSenderTrack(peer.peerId, sender, track));
+          return;
+        }
+
+        // Reuse a receive-only transceiver the initiator created before it had media,
+        // but never one that carries a screen share in either direction
+        const idle = connection.getTransceivers().find(t =>
+          t.currentDirection !== 'stopped' &&
+          !t.sender.track &&
+          t.receiver.track.kind === track.kind &&
+          t !== peer.screenTransceiver &&
+          t !== peer.remoteScreenTransceiver
+        );
+
+        if (idle) {
+          replacements.push(this.replaceSenderTrack(peer.peerId, idle.sender, track));
+          idle.sender.setStreams(stream);
+          idle.direction = 'sendrecv';
         } else {
-          peer.connection.addTrack(track, stream);
+          connection.addTrack(track, stream);
         }
       });
     });
+
+    await Promise.all(replacements);
+  }
+
+  /**
+   * Send a screen share to every peer alongside the camera. Announce the stream id
+   * over signaling first, so receivers can tell the two video tracks apart.
+   */
+  startScreenShare(stream: MediaStream): void {
+    this.screenStream = stream;
+    this.peers.forEach(peer => this.attachScreenShare(peer));
+  }
+
+  stopScreenShare(): void {
+    this.peers.forEach(peer => {
+      const transceiver = peer.screenTransceiver;
+      if (!transceiver || transceiver.currentDirection === 'stopped') return;
+
+      this.replaceSenderTrack(peer.peerId, transceiver.sender, null);
+      transceiver.direction = 'inactive';
+    });
+
+    this.screenStream?.getTracks().forEach(track => track.stop());
+    this.screenStream = null;
+  }
+
+  private attachScreenShare(peer: PeerConnection): void {
+    const track = this.screenStream?.getVideoTracks()[0];
+    if (!this.screenStream || !track) return;
+
+    const transceiver = peer.screenTransceiver;
+    if (transceiver && transceiver.currentDirection !== 'stopped') {
+      this.replaceSenderTrack(peer.peerId, transceiver.sender, track);
+      transceiver.sender.setStreams(this.screenStream);
+      transceiver.direction = 'sendonly';
+      return;
+    }
+
+    peer.screenTransceiver = peer.connection.addTransceiver(track, {
+      direction: 'sendonly',
+      streams: [this.screenStream]
+    });
+  }
+
+  // replaceTrack rejects rather than throws, so a failure would otherwise go unreported
+  private async replaceSenderTrack(peerId: string, sender: RTCRtpSender, track: MediaStreamTrack | null): Promise<void> {
+    try {
+      await sender.replaceTrack(track);
+    } catch (error) {
+      console.error(`Failed to replace ${track?.kind ?? sender.track?.kind ?? 'media'} track for ${peerId}:`, error);
+    }
+  }
+
+  /**
+   * Record which incoming stream is a peer's screen share, or that it stopped.
+   * Call this from the screen-share-started/stopped signaling events.
+   */
+  setRemoteScreenStream(peerId: string, streamId: string | null): void {
+    if (streamId) {
+      this.remoteScreenStreamIds.set(peerId, streamId);
+      return;
+    }
+
+    this.remoteScreenStreamIds.delete(peerId);
+    const peer = this.peers.get(peerId);
+    if (peer?.screenStream) {
+      peer.screenStream = null;
+      this.emitEvent({ type: 'screen', peerId, stream: null });
+    }
+  }
+
+  // To every peer with an open data channel, or only to `peerId` for a direct message.
+  // The server's copy follows and replaces it on arrival, matched by message id.
+  sendChatMessage(message: ChatMessage, peerId?: string): void {
+    const data = JSON.stringify({ kind: 'chat', message });
+    if (peerId) {
+      this.sendOnDataChannel(peerId, data);
+      return;
+    }
+    this.peers.forEach(peer => this.sendOnDataChannel(peer.peerId, data));
+  }
+
+  private sendOnDataChannel(peerId: string, data: string): boolean {
+    const channel = this.peers.get(peerId)?.dataChannel;
+    if (channel?.readyState !== 'open') return false;
+
+    try {
+      channel.send(data);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to send over data channel to ${peerId}:`, error);
+      return false;
+    }
+  }
+
+  /* ------------------------------ FILE TRANSFER ------------------------------ */
+
+  // Offer a file to everyone we are connected to; bytes flow peer to peer only
+  async sendFile(file: File): Promise<void> {
+    await this.fileTransfers.offer(file, Array.from(this.peers.keys()));
+  }
+
+  acceptFile(transferId: string): void {
+    this.fileTransfers.accept(transferId);
+  }
+
+  pauseFile(transferId: string): void {
+    this.fileTransfers.pause(transferId);
+  }
+
+  cancelFile(transferId: string): void {
+    this.fileTransfers.cancel(transferId);
   }
 
   getPeer(peerId: string): PeerConnection | undefined {
     return this.peers.get(peerId);
   }
 
+  /**
+   * Re-key a live peer after its owner resumed signaling with a new socket id.
+   * The RTCPeerConnection itself is untouched, so media keeps flowing.
+   */
+  renamePeer(previousPeerId: string, peerId: string): void {
+    const peer = this.peers.get(previousPeerId);
+    if (!peer || previousPeerId === peerId) return;
+
+    console.log(`🔀 Renaming peer ${previousPeerId} -> ${peerId}`);
+    this.peers.delete(previousPeerId);
+    peer.peerId = peerId;
+    this.peers.set(peerId, peer);
+    this.fileTransfers.renamePeer(previousPeerId, peerId);
+
+    const screenStreamId = this.remoteScreenStreamIds.get(previousPeerId);
+    if (screenStreamId) {
+      this.remoteScreenStreamIds.delete(previousPeerId);
+      this.remoteScreenStreamIds.set(peerId, screenStreamId);
+    }
+
+    // An offer sent while they were away went to their old socket
+    this.resendPendingOffer(peer);
+  }
+
+  /**
+   * Make sure we have a working connection to a peer after a session resume.
+   * Healthy connections are left alone; only missing or broken ones are renegotiated.
+   */
+  async ensurePeer(peerId: string): Promise<void> {
+    const peer = this.peers.get(peerId);
+
+    if (!peer || peer.connection.signalingState === 'closed') {
+      console.log(`🔁 No usable connection to ${peerId}, negotiating a new one`);
+      if (peer) this.removePeer(peerId);
+      await this.createPeer(peerId, true);
+      return;
+    }
+
+    const connection = peer.connection;
+
+    if (connection.signalingState === 'have-local-offer') {
+      this.resendPendingOffer(peer);
+    } else if (connection.connectionState === 'failed' || connection.connectionState === 'disconnected') {
+      this.restartIce(peerId);
+    } else if (connection.signalingState === 'stable' && !connection.remoteDescription) {
+      // Never completed a first negotiation; its messages were likely lost
+      await this.negotiate(peer);
+    }
+  }
+
+  private resendPendingOffer(peer: PeerConnection): void {
+    const offer = peer.connection.localDescription;
+    const socketId = socketService.getSocketId();
+    if (peer.connection.signalingState !== 'have-local-offer' || !offer || !socketId) return;
+
+    console.log(`📤 Re-sending pending offer to ${peer.peerId}`);
+    socketService.sendWebRTCOffer(peer.peerId, offer.toJSON(), socketId);
+  }
+
   removePeer(peerId: string): void {
     console.log(`🗑️ Removing peer: ${peerId}`);
     const peer = this.peers.get(peerId);
@@ -462,6 +908,7 @@ export class WebRTCManager {
         console.error('Error closing peer connection:', error);
       }
       this.peers.delete(peerId);
+      this.fileTransfers.dropPeer(peerId);
       
       this.emitEvent({
         type: 'peerRemoved',
@@ -474,19 +921,6 @@ export class WebRTCManager {
     return new Map(this.peers);
   }
 
-  replaceTrack(kind: "video" | "audio", newTrack: MediaStreamTrack) {
-    console.log("🎥 replaceTrack called", newTrack.id);
-  Object.values(this.peers).forEach(pc => {
-    const sender = pc
-      .getSenders()
-      .find((s: RTCRtpSender) => s.track?.kind === kind);
-
-    if (sender) {
-      sender.replaceTrack(newTrack);
-    }
-  });
-}
-
  cleanup(): void {
   console.log(`🧹 Cleaning up WebRTC Manager`);
 
@@ -495,11 +929,7 @@ export class WebRTCManager {
     const pc = peer.connection;
 
     pc.getSenders().forEach(sender => {
-      try {
-        sender.replaceTrack(null); // 🔥 REQUIRED
-      } catch (err) {
-        console.warn("replaceTrack failed", err);
-      }
+      this.replaceSenderTrack(peer.peerId, sender, null); // 🔥 REQUIRED
     });
 
     try {
@@ -527,9 +957,18 @@ export class WebRTCManager {
   });
 
   // 🔥 3. Clear references
+  this.statsCollector.stop();
+  this.fileTransfers.cleanup();
+  if (this.iceRefreshTimer) {
+    clearTimeout(this.iceRefreshTimer);
+    this.iceRefreshTimer = null;
+  }
+  this.iceServers = null;
+  this.lastIceServers = null;
   this.localStream = null;
   this.screenStream = null;
   this.peers.clear();
+  this.remoteScreenStreamIds.clear();
   this.eventListeners = [];
 }
 }
\ No newline at end of file
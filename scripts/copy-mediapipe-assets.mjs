@@ -0,0 +1,37 @@
+// scripts/copy-mediapipe-assets.mjs - serve the background effects' runtime from the app
+//
+// The MediaPipe WASM is copied out of node_modules, so it always matches the installed
+// @mediapipe/tasks-vision. The segmentation model is not on npm: it is fetched once, at a
+// pinned version. Offline installs can drop the file into public/mediapipe/ by hand.
+import { cp, mkdir, stat, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SEGMENTER_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/1/selfie_segmenter.tflite';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'mediapipe');
+const require = createRequire(import.meta.url);
+
+const wasmDir = dirname(require.resolve('@mediapipe/tasks-vision/vision_wasm_internal.wasm'));
+await mkdir(target, { recursive: true });
+await cp(wasmDir, join(target, 'wasm'), { recursive: true });
+console.log('📦 Copied MediaPipe WASM to public/mediapipe/wasm');
+
+const modelFile = join(target, 'selfie_segmenter.tflite');
+const hasModel = await stat(modelFile).then(() => true, () => false);
+
+if (!hasModel) {
+  try {
+    const response = await fetch(SEGMENTER_MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    await writeFile(modelFile, Buffer.from(await response.arrayBuffer()));
+    console.log('📦 Downloaded the selfie segmentation model to public/mediapipe');
+  } catch (error) {
+    // Only background effects need it, so an install without it should still succeed
+    console.warn(`⚠️ Could not download ${SEGMENTER_MODEL_URL} (${error.message}); save it as ${modelFile} for background effects`);
+  }
+}
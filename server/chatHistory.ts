@@ -0,0 +1,215 @@
+// server/chatHistory.ts - bounded per-room chat log for late joiners
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ChatMessage } from '@/lib/signaling';
+import { chatMessageSchema, parsePayload } from '@/lib/validation';
+
+const DEFAULT_MAX_PER_ROOM = 500;
+
+const LOG_SUFFIX = '.jsonl';
+const CLOSED_SUFFIX = '.closed.jsonl';
+
+export interface ChatHistoryPage {
+  messages: ChatMessage[];
+  // True when older messages exist before the first one returned
+  hasMore: boolean;
+}
+
+export interface ChatHistory {
+  append(roomId: string, message: ChatMessage): void;
+  /**
+   * Newest `limit` messages, oldest first. With `before`, only messages older
+   * than the message with that id are considered.
+   */
+  getPage(roomId: string, limit: number, before?: string): ChatHistoryPage;
+  // Undefined once the message has fallen out of the bounded log
+  find(roomId: string, messageId: string): ChatMessage | undefined;
+  // Swap in an edited copy of a message that is still kept; false otherwise
+  replace(roomId: string, message: ChatMessage): boolean;
+  // Called once a room is deleted
+  release(roomId: string): void;
+}
+
+export class MemoryChatHistory implements ChatHistory {
+  protected logs: Map<string, ChatMessage[]> = new Map();
+
+  constructor(protected maxPerRoom: number = DEFAULT_MAX_PER_ROOM) {}
+
+  append(roomId: string, message: ChatMessage): void {
+    const log = this.getLog(roomId);
+    log.push(message);
+    if (log.length > this.maxPerRoom) {
+      log.splice(0, log.length - this.maxPerRoom);
+    }
+  }
+
+  getPage(roomId: string, limit: number, before?: string): ChatHistoryPage {
+    const log = this.getLog(roomId);
+
+    let end = log.length;
+    if (before) {
+      end = log.findIndex(m => m.id === before);
+      // The cursor fell out of the bounded log: nothing older is kept
+      if (end === -1) return { messages: [], hasMore: false };
+    }
+
+    const start = Math.max(0, end - limit);
+    return { messages: log.slice(start, end), hasMore: start > 0 };
+  }
+
+  find(roomId: string, messageId: string): ChatMessage | undefined {
+    return this.getLog(roomId).find(m => m.id === messageId);
+  }
+
+  replace(roomId: string, message: ChatMessage): boolean {
+    const log = this.getLog(roomId);
+    const index = log.findIndex(m => m.id === message.id);
+    if (index === -1) return false;
+
+    log[index] = message;
+    return true;
+  }
+
+  release(roomId: string): void {
+    this.logs.delete(roomId);
+  }
+
+  protected getLog(roomId: string): ChatMessage[] {
+    let log = this.logs.get(roomId);
+    if (!log) {
+      log = [];
+      this.logs.set(roomId, log);
+    }
+    return log;
+  }
+}
+
+/**
+ * Keeps each room's log in `<dir>/<roomId>.jsonl` while the room is open. Room ids
+ * are chosen by whoever creates the room, so a log is rotated out to
+ * `<roomId>-<time>.closed.jsonl` once its room is gone and is never shown to a
+ * later room under the same id. Writes are synchronous so lines from concurrent
+ * messages can never interleave.
+ */
+export class FileChatHistory extends MemoryChatHistory {
+  // Lines written since the file was last rewritten, to trigger compaction
+  private lineCounts: Map<string, number> = new Map();
+
+  constructor(private dir: string, maxPerRoom?: number) {
+    super(maxPerRoom);
+    mkdirSync(dir, { recursive: true });
+
+    // Rooms live in memory, so open logs left by an earlier process belong to rooms that are gone
+    readdirSync(dir)
+      .filter(name => name.endsWith(LOG_SUFFIX) && !name.endsWith(CLOSED_SUFFIX))
+      .forEach(name => this.rotate(decodeURIComponent(name.slice(0, -LOG_SUFFIX.length))));
+  }
+
+  append(roomId: string, message: ChatMessage): void {
+    super.append(roomId, message);
+
+    const file = this.fileFor(roomId);
+    try {
+      appendFileSync(file, JSON.stringify(message) + '\n');
+
+      const lines = (this.lineCounts.get(roomId) ?? 0) + 1;
+      this.lineCounts.set(roomId, lines);
+
+      // Rewrite the file from the bounded log once it holds twice what we keep
+      if (lines > this.maxPerRoom * 2) {
+        this.writeLog(roomId);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to persist chat message for room ${roomId}:`, error);
+    }
+  }
+
+  // Edits are rare enough to simply rewrite the file
+  replace(roomId: string, message: ChatMessage): boolean {
+    if (!super.replace(roomId, message)) return false;
+
+    try {
+      this.writeLog(roomId);
+    } catch (error) {
+      console.error(`❌ Failed to persist chat edit for room ${roomId}:`, error);
+    }
+    return true;
+  }
+
+  // The log is kept on disk for the operator, out of reach of the next room with this id
+  release(roomId: string): void {
+    super.release(roomId);
+    this.lineCounts.delete(roomId);
+    this.rotate(roomId);
+  }
+
+  protected getLog(roomId: string): ChatMessage[] {
+    if (!this.logs.has(roomId)) {
+      this.logs.set(roomId, this.readLog(roomId));
+    }
+    return super.getLog(roomId);
+  }
+
+  private readLog(roomId: string): ChatMessage[] {
+    const file = this.fileFor(roomId);
+    if (!existsSync(file)) return [];
+
+    try {
+      const lines = readFileSync(file, 'utf8').split('\n').filter(Boolean);
+      this.lineCounts.set(roomId, lines.length);
+
+      // The file is ours, but a torn final write or manual edit should not take the room down
+      return lines
+        .map(line => {
+          try {
+            return parsePayload(chatMessageSchema, JSON.parse(line), { event: 'chat-history:file', senderId: file });
+          } catch {
+            return null;
+          }
+        })
+        .filter((message): message is ChatMessage => message !== null)
+        .slice(-this.maxPerRoom);
+    } catch (error) {
+      console.error(`❌ Failed to read chat history for room ${roomId}:`, error);
+      return [];
+    }
+  }
+
+  private writeLog(roomId: string): void {
+    const log = super.getLog(roomId);
+    writeFileSync(this.fileFor(roomId), log.map(m => JSON.stringify(m) + '\n').join(''));
+    this.lineCounts.set(roomId, log.length);
+  }
+
+  private rotate(roomId: string): void {
+    const file = this.fileFor(roomId);
+    if (!existsSync(file)) return;
+
+    try {
+      renameSync(file, join(this.dir, `${encodeURIComponent(roomId)}-${Date.now()}${CLOSED_SUFFIX}`));
+    } catch (error) {
+      console.error(`❌ Failed to close chat history for room ${roomId}:`, error);
+    }
+  }
+
+  private fileFor(roomId: string): string {
+    return join(this.dir, `${encodeURIComponent(roomId)}${LOG_SUFFIX}`);
+  }
+}
+
+/**
+ * Pick the backend from the environment:
+ *
+ * - `CHAT_HISTORY_DIR`: store logs as JSON Lines in this directory. In memory when unset.
+ * - `CHAT_HISTORY_LIMIT`: messages kept per room (default 500).
+ */
+export function createChatHistory(): ChatHistory {
+  const maxPerRoom = Number(process.env.CHAT_HISTORY_LIMIT) || DEFAULT_MAX_PER_ROOM;
+  const dir = process.env.CHAT_HISTORY_DIR;
+
+  if (dir) {
+    console.log(`💾 Persisting chat history to ${dir}`);
+    return new FileChatHistory(dir, maxPerRoom);
+  }
+  return new MemoryChatHistory(maxPerRoom);
+}
@@ -0,0 +1,52 @@
+// server/index.ts - Socket.IO signaling server
+import { createServer } from 'node:http';
+import { Server } from 'socket.io';
+import { createChatHistory } from './chatHistory';
+import { RoomManager } from './roomManager';
+import { emitWaitingRoom, registerSocketHandlers, type SignalingServer } from './socketHandlers';
+
+const port = Number(process.env.SOCKET_SERVER_PORT) || 4000;
+const clientOrigin = process.env.CLIENT_ORIGIN || 'http://localhost:3000';
+
+const httpServer = createServer((req, res) => {
+  // Lightweight health check for load balancers / local debugging
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+
+const io: SignalingServer = new Server(httpServer, {
+  cors: {
+    origin: clientOrigin.split(',').map(origin => origin.trim()),
+    methods: ['GET', 'POST']
+  }
+});
+
+const chatHistory = createChatHistory();
+
+const rooms = new RoomManager({
+  resumeGraceMs: Number(process.env.SESSION_RESUME_GRACE_MS) || undefined,
+  hostMigrationGraceMs: Number(process.env.HOST_MIGRATION_GRACE_MS) || undefined,
+  onRoomDeleted: (room) => {
+    chatHistory.release(room.roomId);
+    if (room.waiting.length > 0) {
+      io.to(room.waiting.map(w => w.socketId)).emit('join-denied', { reason: 'The meeting has ended' });
+    }
+  },
+  onHostChanged: (room, previousHostId) => {
+    io.to(room.roomId).emit('host-changed', { hostId: room.hostId, previousHostId });
+    emitWaitingRoom(io, room);
+  }
+});
+
+io.on('connection', (socket) => {
+  registerSocketHandlers(io, socket, rooms, chatHistory);
+});
+
+httpServer.listen(port, () => {
+  console.log(`🚀 Signaling server listening on http://localhost:${port}`);
+});
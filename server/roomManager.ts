@@ -0,0 +1,548 @@
+// server/roomManager.ts
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { Room, User, WaitingUser } from '@/app/types';
+import {
+  canModerate,
+  type MediaState,
+  type Participant,
+  type ParticipantRole,
+  type RoomJoinErrorCode
+} from '@/lib/signaling';
+import { MAX_PARTICIPANTS, MAX_WAITING } from '@/lib/validation';
+
+const ROOM_ID_LENGTH = 6;
+const ROOM_ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const DEFAULT_RESUME_GRACE_MS = 30_000;
+// How long a dropped host has to come back before someone else is promoted
+const DEFAULT_HOST_MIGRATION_GRACE_MS = 10_000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_HASH_BYTES = 32;
+const INVITE_TTL_MS = 24 * 60 * 60_000;
+// Outstanding invites per room; the oldest is dropped to make room
+const MAX_INVITES = 100;
+const DEFAULT_MEDIA: MediaState = { isAudioOn: true, isVideoOn: true };
+
+interface Session {
+  roomId: string;
+  resumeToken: string;
+  // Set while the participant's socket is gone and the grace period is running
+  expiryTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class RoomError extends Error {
+  constructor(message: string, readonly code?: RoomJoinErrorCode) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+export class RoomManager {
+  private rooms: Map<string, Room> = new Map();
+  // socketId -> roomId, so disconnects can be resolved without a payload
+  private socketRooms: Map<string, string> = new Map();
+  // socketId -> roomId for sockets in a waiting room
+  private waitingSockets: Map<string, string> = new Map();
+  // userId -> resumable session
+  private sessions: Map<string, Session> = new Map();
+  // roomId -> pending promotion while the host's socket is gone
+  private hostMigrationTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private resumeGraceMs: number;
+  private hostMigrationGraceMs: number;
+  private onRoomDeleted?: (room: Room) => void;
+  private onHostChanged?: (room: Room, previousHostId: string) => void;
+
+  constructor(options: {
+    resumeGraceMs?: number;
+    hostMigrationGraceMs?: number;
+    // Anyone still in its waiting room is left in `room.waiting`
+    onRoomDeleted?: (room: Room) => void;
+    // Every host change, whether transferred or migrated
+    onHostChanged?: (room: Room, previousHostId: string) => void;
+  } = {}) {
+    this.resumeGraceMs = options.resumeGraceMs ?? DEFAULT_RESUME_GRACE_MS;
+    this.hostMigrationGraceMs = options.hostMigrationGraceMs ?? DEFAULT_HOST_MIGRATION_GRACE_MS;
+    this.onRoomDeleted = options.onRoomDeleted;
+    this.onHostChanged = options.onHostChanged;
+  }
+
+  createRoom(
+    socketId: string,
+    userName: string,
+    requestedRoomId?: string,
+    media: MediaState = DEFAULT_MEDIA
+  ): { room: Room; user: User } {
+    this.assertNotInRoom(socketId);
+    const roomId = requestedRoomId?.trim().toUpperCase() || this.generateRoomId();
+
+    if (this.rooms.has(roomId)) {
+      throw new RoomError('Room already exists');
+    }
+
+    const user = this.createUser(socketId, userName, roomId, 'host', media);
+    const room: Room = {
+      roomId,
+      hostId: user.userId,
+      participants: [user],
+      createdAt: new Date(),
+      isLocked: false,
+      invites: new Map(),
+      isWaitingRoomEnabled: false,
+      waiting: []
+    };
+
+    this.rooms.set(roomId, room);
+    this.socketRooms.set(socketId, roomId);
+    console.log(`🏠 Room ${roomId} created by ${userName}`);
+
+    return { room, user };
+  }
+
+  /**
+   * Join straight away, or queue in the waiting room when the room has one.
+   * A locked room takes its password or an unused invite token.
+   */
+  joinRoom(
+    socketId: string,
+    roomId: string,
+    userName: string,
+    access: { password?: string; inviteToken?: string } = {},
+    media: MediaState = DEFAULT_MEDIA
+  ): { room: Room; user: User } | { room: Room; waiting: WaitingUser } {
+    this.assertNotInRoom(socketId);
+    const room = this.rooms.get(roomId.trim().toUpperCase());
+
+    if (!room) {
+      throw new RoomError('Room not found', 'room-not-found');
+    }
+
+    if (room.isLocked && !(access.inviteToken && this.redeemInvite(room, access.inviteToken))) {
+      const { password } = access;
+      if (!password) {
+        throw access.inviteToken
+          ? new RoomError('This invite link has expired or was already used', 'invite-expired')
+          : new RoomError('This room needs a password', 'password-required');
+      }
+      if (!room.password || !passwordMatches(room.password, password)) {
+        throw new RoomError('Incorrect password', 'wrong-password');
+      }
+    }
+
+    if (this.isFull(room)) {
+      throw new RoomError('This room is full', 'room-full');
+    }
+
+    if (room.isWaitingRoomEnabled) {
+      if (room.waiting.length >= MAX_WAITING) {
+        throw new RoomError('Too many people are waiting to join this room', 'waiting-room-full');
+      }
+
+      const waiting: WaitingUser = {
+        requestId: randomUUID(),
+        socketId,
+        userName: userName.trim(),
+        requestedAt: new Date(),
+        media
+      };
+      room.waiting.push(waiting);
+      this.waitingSockets.set(socketId, room.roomId);
+      console.log(`⏳ ${userName} is waiting to join room ${room.roomId}`);
+
+      return { room, waiting };
+    }
+
+    return { room, user: this.addUser(room, socketId, userName, media) };
+  }
+
+  /**
+   * Let someone in from the waiting room. Returns null if they already left it,
+   * or if the room has filled up since, in which case they keep waiting.
+   */
+  admit(roomId: string, requestId: string): { room: Room; user: User } | null {
+    const room = this.rooms.get(roomId);
+    if (!room || this.isFull(room)) return null;
+
+    const waiting = this.takeWaiting(room, requestId);
+    if (!waiting) return null;
+
+    return { room, user: this.addUser(room, waiting.socketId, waiting.userName, waiting.media) };
+  }
+
+  deny(roomId: string, requestId: string): WaitingUser | null {
+    const room = this.rooms.get(roomId);
+    return (room && this.takeWaiting(room, requestId)) ?? null;
+  }
+
+  /**
+   * Drop a socket from whichever waiting room it is in, returning that room.
+   */
+  leaveWaitingRoom(socketId: string): Room | undefined {
+    const room = this.rooms.get(this.waitingSockets.get(socketId) ?? '');
+    const waiting = room?.waiting.find(w => w.socketId === socketId);
+    if (!room || !waiting) return undefined;
+
+    this.takeWaiting(room, waiting.requestId);
+    return room;
+  }
+
+  setWaitingRoom(roomId: string, enabled: boolean): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    room.isWaitingRoomEnabled = enabled;
+  }
+
+  /**
+   * Remove the participant bound to a socket.
+   */
+  leaveRoom(socketId: string): { room: Room; user: User } | null {
+    const roomId = this.socketRooms.get(socketId);
+    if (!roomId) return null;
+
+    this.socketRooms.delete(socketId);
+
+    const user = this.rooms.get(roomId)?.participants.find(p => p.socketId === socketId);
+    return user ? this.removeUser(roomId, user.userId) : null;
+  }
+
+  /**
+   * Remove a participant by user id, whether or not their socket is still attached.
+   * Deletes the room once the last participant is gone; a departing host is replaced.
+   */
+  removeUser(roomId: string, userId: string): { room: Room; user: User } | null {
+    const session = this.sessions.get(userId);
+    clearTimeout(session?.expiryTimer);
+    this.sessions.delete(userId);
+
+    const room = this.rooms.get(roomId);
+    const user = room?.participants.find(p => p.userId === userId);
+    if (!room || !user) return null;
+
+    if (this.socketRooms.get(user.socketId) === roomId) {
+      this.socketRooms.delete(user.socketId);
+    }
+    room.participants = room.participants.filter(p => p.userId !== userId);
+
+    if (room.participants.length === 0) {
+      this.clearHostMigration(roomId);
+      room.waiting.forEach(w => this.waitingSockets.delete(w.socketId));
+      this.rooms.delete(roomId);
+      this.onRoomDeleted?.(room);
+      console.log(`🗑️ Room ${roomId} is empty, removed`);
+    } else if (room.hostId === userId) {
+      this.migrateHost(room);
+    }
+
+    return { room, user };
+  }
+
+  /**
+   * Detach a dropped socket but keep its participant for the resume grace period.
+   * `onExpire` runs if the participant has not resumed by then.
+   */
+  suspendSession(socketId: string, onExpire: (room: Room, user: User) => void): User | null {
+    const roomId = this.socketRooms.get(socketId);
+    if (!roomId) return null;
+
+    this.socketRooms.delete(socketId);
+
+    const user = this.rooms.get(roomId)?.participants.find(p => p.socketId === socketId);
+    const session = user && this.sessions.get(user.userId);
+    if (!user || !session) return null;
+
+    clearTimeout(session.expiryTimer);
+    session.expiryTimer = setTimeout(() => {
+      const result = this.removeUser(roomId, user.userId);
+      if (result) onExpire(result.room, result.user);
+    }, this.resumeGraceMs);
+
+    const room = this.rooms.get(roomId)!;
+    if (room.hostId === user.userId) {
+      this.clearHostMigration(roomId);
+      this.hostMigrationTimers.set(roomId, setTimeout(() => {
+        this.hostMigrationTimers.delete(roomId);
+        this.migrateHost(room);
+      }, this.hostMigrationGraceMs));
+    }
+
+    console.log(`⏸️ ${user.userName} suspended in room ${roomId}`);
+    return user;
+  }
+
+  /**
+   * Re-attach a participant to a new socket using the token issued at join time.
+   */
+  resumeSession(
+    socketId: string,
+    roomId: string,
+    userId: string,
+    resumeToken: string
+  ): { room: Room; user: User; previousSocketId: string } {
+    this.assertNotInRoom(socketId);
+
+    const session = this.sessions.get(userId);
+    const room = this.rooms.get(roomId);
+    const user = room?.participants.find(p => p.userId === userId);
+
+    if (!session || !room || !user || session.roomId !== roomId || !tokensMatch(session.resumeToken, resumeToken)) {
+      throw new RoomError('Session expired');
+    }
+
+    clearTimeout(session.expiryTimer);
+    session.expiryTimer = undefined;
+
+    // The old socket may not have timed out on our side yet
+    const previousSocketId = user.socketId;
+    this.socketRooms.delete(previousSocketId);
+
+    user.socketId = socketId;
+    this.socketRooms.set(socketId, roomId);
+    if (room.hostId === user.userId) {
+      this.clearHostMigration(roomId);
+    }
+    console.log(`▶️ ${user.userName} resumed in room ${roomId}`);
+
+    return { room, user, previousSocketId };
+  }
+
+  getResumeToken(userId: string): string | undefined {
+    return this.sessions.get(userId)?.resumeToken;
+  }
+
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  getRoomBySocket(socketId: string): Room | undefined {
+    const roomId = this.socketRooms.get(socketId);
+    return roomId ? this.rooms.get(roomId) : undefined;
+  }
+
+  getUserBySocket(socketId: string): User | undefined {
+    return this.getRoomBySocket(socketId)?.participants.find(p => p.socketId === socketId);
+  }
+
+  isHost(socketId: string, roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    const user = room?.participants.find(p => p.socketId === socketId);
+    return !!room && !!user && room.hostId === user.userId;
+  }
+
+  // Hosts and co-hosts
+  isModerator(socketId: string, roomId: string): boolean {
+    const user = this.rooms.get(roomId)?.participants.find(p => p.socketId === socketId);
+    return !!user && user.role !== 'participant';
+  }
+
+  /**
+   * The participant `targetUserId` if the socket's user outranks them in this room,
+   * otherwise undefined. Used to gate every moderation action.
+   */
+  getModeratableUser(socketId: string, roomId: string, targetUserId: string): User | undefined {
+    const room = this.rooms.get(roomId);
+    const actor = room?.participants.find(p => p.socketId === socketId);
+    const target = room?.participants.find(p => p.userId === targetUserId);
+    return actor && target && canModerate(actor.role, target.role) ? target : undefined;
+  }
+
+  /**
+   * Make `userId` the host. The previous host, if still here, stays on as a co-host.
+   */
+  transferHost(roomId: string, userId: string): User | undefined {
+    const room = this.rooms.get(roomId);
+    const target = room?.participants.find(p => p.userId === userId);
+    if (!room || !target || room.hostId === userId) return undefined;
+
+    const previousHostId = room.hostId;
+    const previousHost = room.participants.find(p => p.userId === previousHostId);
+    if (previousHost) previousHost.role = 'co-host';
+
+    target.role = 'host';
+    room.hostId = target.userId;
+    this.clearHostMigration(roomId);
+
+    console.log(`👑 ${target.userName} is now the host of room ${roomId}`);
+    this.onHostChanged?.(room, previousHostId);
+    return target;
+  }
+
+  setRole(roomId: string, userId: string, role: Exclude<ParticipantRole, 'host'>): User | undefined {
+    const user = this.rooms.get(roomId)?.participants.find(p => p.userId === userId);
+    if (!user || user.role === 'host') return undefined;
+    user.role = role;
+    return user;
+  }
+
+  /**
+   * True when both sockets are in the same room, used to gate signaling relays.
+   */
+  sharesRoom(socketId: string, otherSocketId: string): boolean {
+    const roomId = this.socketRooms.get(socketId);
+    return !!roomId && roomId === this.socketRooms.get(otherSocketId);
+  }
+
+  updateUser(
+    socketId: string,
+    updates: Partial<Pick<User, 'isAudioOn' | 'isVideoOn' | 'isScreenSharing' | 'screenStreamId' | 'handRaisedAt'>>
+  ): User | undefined {
+    const user = this.getUserBySocket(socketId);
+    if (user) {
+      Object.assign(user, updates);
+    }
+    return user;
+  }
+
+  lockRoom(roomId: string, password: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    const salt = randomBytes(PASSWORD_SALT_BYTES);
+    room.isLocked = true;
+    room.password = { salt, hash: hashPassword(password, salt) };
+    // Invites were for the old password
+    room.invites.clear();
+  }
+
+  unlockRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+    room.isLocked = false;
+    room.password = undefined;
+    room.invites.clear();
+  }
+
+  /**
+   * A one-time token into a locked room, for invite links. Null if the room is not locked.
+   */
+  createInvite(roomId: string): { token: string; expiresAt: number } | null {
+    const room = this.rooms.get(roomId);
+    if (!room?.isLocked) return null;
+
+    const now = Date.now();
+    for (const [token, expiresAt] of room.invites) {
+      if (expiresAt <= now) room.invites.delete(token);
+    }
+    if (room.invites.size >= MAX_INVITES) {
+      room.invites.delete(room.invites.keys().next().value!);
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = now + INVITE_TTL_MS;
+    room.invites.set(token, expiresAt);
+    return { token, expiresAt };
+  }
+
+  toParticipant(user: User): Participant {
+    return {
+      id: user.userId,
+      userId: user.userId,
+      userName: user.userName,
+      socketId: user.socketId,
+      role: user.role,
+      isVideoOn: user.isVideoOn,
+      isAudioOn: user.isAudioOn,
+      isScreenSharing: user.isScreenSharing,
+      screenStreamId: user.screenStreamId,
+      handRaisedAt: user.handRaisedAt
+    };
+  }
+
+  /**
+   * Promote whoever has been in the room longest, preferring participants
+   * whose socket is attached over ones waiting to resume.
+   */
+  private migrateHost(room: Room): void {
+    const candidates = room.participants
+      .filter(p => p.userId !== room.hostId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+    const successor = candidates.find(p => this.socketRooms.has(p.socketId)) ?? candidates[0];
+
+    if (successor) {
+      this.transferHost(room.roomId, successor.userId);
+    }
+  }
+
+  private clearHostMigration(roomId: string): void {
+    clearTimeout(this.hostMigrationTimers.get(roomId));
+    this.hostMigrationTimers.delete(roomId);
+  }
+
+  private isFull(room: Room): boolean {
+    return room.participants.length >= MAX_PARTICIPANTS;
+  }
+
+  private addUser(room: Room, socketId: string, userName: string, media: MediaState): User {
+    const user = this.createUser(socketId, userName, room.roomId, 'participant', media);
+    room.participants.push(user);
+    this.socketRooms.set(socketId, room.roomId);
+    console.log(`👤 ${userName} joined room ${room.roomId}`);
+    return user;
+  }
+
+  private takeWaiting(room: Room, requestId: string): WaitingUser | undefined {
+    const waiting = room.waiting.find(w => w.requestId === requestId);
+    if (!waiting) return undefined;
+
+    room.waiting = room.waiting.filter(w => w !== waiting);
+    this.waitingSockets.delete(waiting.socketId);
+    return waiting;
+  }
+
+  private assertNotInRoom(socketId: string): void {
+    if (this.socketRooms.has(socketId) || this.waitingSockets.has(socketId)) {
+      throw new RoomError('Already in a room');
+    }
+  }
+
+  private createUser(
+    socketId: string,
+    userName: string,
+    roomId: string,
+    role: ParticipantRole,
+    media: MediaState
+  ): User {
+    const userId = randomUUID();
+    this.sessions.set(userId, { roomId, resumeToken: randomBytes(32).toString('base64url') });
+
+    return {
+      userId,
+      socketId,
+      userName: userName.trim(),
+      role,
+      isVideoOn: media.isVideoOn,
+      isAudioOn: media.isAudioOn,
+      isScreenSharing: false,
+      joinedAt: new Date()
+    };
+  }
+
+  // Spends the token whether or not it was still valid
+  private redeemInvite(room: Room, token: string): boolean {
+    const expiresAt = room.invites.get(token);
+    room.invites.delete(token);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private generateRoomId(): string {
+    let roomId = '';
+    do {
+      roomId = Array.from(
+        { length: ROOM_ID_LENGTH },
+        () => ROOM_ID_ALPHABET[Math.floor(Math.random() * ROOM_ID_ALPHABET.length)]
+      ).join('');
+    } while (this.rooms.has(roomId));
+    return roomId;
+  }
+}
+
+function hashPassword(password: string, salt: Buffer): Buffer {
+  return scryptSync(password.normalize('NFKC'), salt, PASSWORD_HASH_BYTES);
+}
+
+// Both hashes are PASSWORD_HASH_BYTES long, so timingSafeEqual never throws
+function passwordMatches(stored: { salt: Buffer; hash: Buffer }, received: string): boolean {
+  return timingSafeEqual(stored.hash, hashPassword(received, stored.salt));
+}
+
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,672 @@
+// server/socketHandlers.ts
+import { randomUUID } from 'node:crypto';
+import type { Server, Socket } from 'socket.io';
+import {
+  MEDIA_TOGGLED_EVENTS,
+  type ChatMention,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type MediaKind,
+  type RoomJoinAck,
+  type RoomJoinResponse,
+  type ServerToClientEvents,
+  type WaitingRoomPayload
+} from '@/lib/signaling';
+import {
+  createRoomSchema,
+  deleteChatMessageSchema,
+  disableParticipantMediaSchema,
+  editChatMessageSchema,
+  getChatHistorySchema,
+  joinRoomSchema,
+  kickUserSchema,
+  lockRoomSchema,
+  lowerHandSchema,
+  parsePayload,
+  raiseHandSchema,
+  relayAnswerSchema,
+  relayIceCandidateSchema,
+  relayOfferSchema,
+  relayVideoSizeSchema,
+  requestUnmuteSchema,
+  resumeSessionSchema,
+  roomIdSchema,
+  sendChatMessageSchema,
+  sendReactionSchema,
+  setRoleSchema,
+  startScreenShareSchema,
+  toggleChatReactionSchema,
+  setWaitingRoomSchema,
+  toggleMediaSchema,
+  transferHostSchema,
+  waitingRequestSchema
+} from '@/lib/validation';
+import type { Room, User } from '@/app/types';
+import { getIceConfig } from '@/lib/iceServers';
+import type { ChatHistory } from './chatHistory';
+import { RoomError, RoomManager } from './roomManager';
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+type JoinAck = (response: RoomJoinAck) => void;
+
+// Messages sent with the join response, and per `get-chat-history` page by default
+const HISTORY_PAGE_SIZE = 50;
+// Live reactions faster than this from one socket are dropped
+const MIN_REACTION_INTERVAL_MS = 250;
+
+const toWaitingRoomPayload = (room: Room): WaitingRoomPayload => ({
+  isEnabled: room.isWaitingRoomEnabled,
+  waiting: room.waiting.map(w => ({
+    requestId: w.requestId,
+    userName: w.userName,
+    requestedAt: w.requestedAt.getTime()
+  }))
+});
+
+/**
+ * Send the waiting room, whole, to the room's hosts and co-hosts.
+ */
+export function emitWaitingRoom(io: SignalingServer, room: Room): void {
+  const moderators = room.participants.filter(p => p.role !== 'participant').map(p => p.socketId);
+  if (moderators.length > 0) {
+    io.to(moderators).emit('waiting-room-updated', toWaitingRoomPayload(room));
+  }
+}
+
+export function registerSocketHandlers(
+  io: SignalingServer,
+  socket: SignalingSocket,
+  rooms: RoomManager,
+  chatHistory: ChatHistory
+): void {
+  console.log('✅ Client connected:', socket.id);
+
+  const fail = (ack: JoinAck | undefined, error: unknown) => {
+    const message = error instanceof RoomError ? error.message : 'Internal server error';
+    if (!(error instanceof RoomError)) {
+      console.error('❌ Room operation failed:', error);
+    }
+    if (typeof ack === 'function') {
+      const code = error instanceof RoomError ? error.code : undefined;
+      ack({ success: false, error: message, ...(code && { code }) });
+    }
+  };
+
+  // Client payloads are untrusted: parse them before touching room state
+  const parse = <T>(schema: Parameters<typeof parsePayload<T>>[0], data: unknown, event: string) =>
+    parsePayload(schema, data, { event, senderId: socket.id });
+
+  const buildJoinResponse = (roomId: string, userId: string): RoomJoinResponse => {
+    const room = rooms.getRoom(roomId)!;
+    const user = room.participants.find(p => p.userId === userId)!;
+    const history = chatHistory.getPage(room.roomId, HISTORY_PAGE_SIZE);
+    return {
+      success: true,
+      socketId: user.socketId,
+      roomId: room.roomId,
+      userName: user.userName,
+      hostId: room.hostId,
+      userId: user.userId,
+      isHost: room.hostId === user.userId,
+      role: user.role,
+      isWaitingRoomEnabled: room.isWaitingRoomEnabled,
+      isLocked: room.isLocked,
+      participants: room.participants.map(p => rooms.toParticipant(p)),
+      resumeToken: rooms.getResumeToken(user.userId)!,
+      chatHistory: history.messages,
+      hasMoreHistory: history.hasMore
+    };
+  };
+
+  /* ------------------------------ ROOM LIFECYCLE ----------------------------- */
+
+  socket.on('create-room', (data, ack) => {
+    const payload = parse(createRoomSchema, data, 'create-room');
+    if (!payload) return fail(ack, new RoomError('Invalid request'));
+
+    try {
+      const { userName, roomId, media } = payload;
+      const { room, user } = rooms.createRoom(socket.id, userName, roomId, media);
+      socket.join(room.roomId);
+
+      const response = buildJoinResponse(room.roomId, user.userId);
+      if (typeof ack === 'function') ack(response);
+      socket.emit('room-joined', response);
+    } catch (error) {
+      fail(ack, error);
+    }
+  });
+
+  // `joiner` is this socket for a direct join, or a waiting one being admitted
+  const completeJoin = (joiner: SignalingSocket, room: Room, user: User, ack?: JoinAck) => {
+    const participant = rooms.toParticipant(user);
+
+    joiner.to(room.roomId).emit('user-joining', participant);
+    joiner.join(room.roomId);
+
+    const response = buildJoinResponse(room.roomId, user.userId);
+    if (typeof ack === 'function') ack(response);
+    joiner.emit('room-joined', response);
+    joiner.to(room.roomId).emit('user-joined', participant);
+  };
+
+  socket.on('join-room', (data, ack) => {
+    const payload = parse(joinRoomSchema, data, 'join-room');
+    if (!payload) return fail(ack, new RoomError('Invalid request'));
+
+    try {
+      const { roomId, userName, password, inviteToken, media } = payload;
+      const result = rooms.joinRoom(socket.id, roomId, userName, { password, inviteToken }, media);
+
+      if ('waiting' in result) {
+        if (typeof ack === 'function') ack({ success: false, pending: true, roomId: result.room.roomId });
+        emitWaitingRoom(io, result.room);
+        return;
+      }
+
+      completeJoin(socket, result.room, result.user, ack);
+    } catch (error) {
+      fail(ack, error);
+    }
+  });
+
+  const leave = () => {
+    const result = rooms.leaveRoom(socket.id);
+    if (!result) return;
+
+    const { room, user } = result;
+    socket.leave(room.roomId);
+    io.to(room.roomId).emit('user-left', { userId: user.userId, socketId: socket.id });
+    console.log(`👋 ${user.userName} left room ${room.roomId}`);
+  };
+
+  socket.on('leave-room', leave);
+
+  const leaveWaitingRoom = () => {
+    const room = rooms.leaveWaitingRoom(socket.id);
+    if (room) emitWaitingRoom(io, room);
+  };
+
+  socket.on('leave-waiting-room', leaveWaitingRoom);
+
+  // Dropped connections get a grace period to come back with `resume-session`
+  socket.on('disconnect', (reason) => {
+    console.log('🔌 Client disconnected:', socket.id, reason);
+    leaveWaitingRoom();
+
+    // An explicit socket.disconnect() from the client is a deliberate leave
+    if (reason === 'client namespace disconnect') {
+      leave();
+      return;
+    }
+
+    rooms.suspendSession(socket.id, (room, user) => {
+      io.to(room.roomId).emit('user-left', { userId: user.userId, socketId: user.socketId });
+      console.log(`⌛ ${user.userName} did not resume, removed from room ${room.roomId}`);
+    });
+  });
+
+  socket.on('resume-session', (data, ack) => {
+    const payload = parse(resumeSessionSchema, data, 'resume-session');
+    if (!payload) return fail(ack, new RoomError('Invalid request'));
+
+    try {
+      const { roomId, userId, resumeToken } = payload;
+      const { room, user, previousSocketId } = rooms.resumeSession(socket.id, roomId, userId, resumeToken);
+
+      // Drop the stale socket if the server had not noticed it was gone yet
+      const previousSocket = io.sockets.sockets.get(previousSocketId);
+      if (previousSocket && previousSocket.id !== socket.id) {
+        previousSocket.leave(room.roomId);
+        previousSocket.disconnect(true);
+      }
+
+      socket.join(room.roomId);
+
+      const response = buildJoinResponse(room.roomId, user.userId);
+      if (typeof ack === 'function') ack(response);
+      socket.to(room.roomId).emit('user-resumed', {
+        userId: user.userId,
+        socketId: socket.id,
+        previousSocketId
+      });
+      if (user.role !== 'participant') emitWaitingRoom(io, room);
+    } catch (error) {
+      fail(ack, error);
+    }
+  });
+
+  /* ------------------------------ WEBRTC RELAY ------------------------------- */
+
+  // `from` is always the sender's socket id, never the value the client claims
+  socket.on('webrtc-offer', (data) => {
+    const payload = parse(relayOfferSchema, data, 'webrtc-offer');
+    if (!payload || !rooms.sharesRoom(socket.id, payload.to)) return;
+    io.to(payload.to).emit('webrtc-offer', { offer: payload.offer, from: socket.id });
+  });
+
+  socket.on('webrtc-answer', (data) => {
+    const payload = parse(relayAnswerSchema, data, 'webrtc-answer');
+    if (!payload || !rooms.sharesRoom(socket.id, payload.to)) return;
+    io.to(payload.to).emit('webrtc-answer', { answer: payload.answer, from: socket.id });
+  });
+
+  socket.on('webrtc-ice-candidate', (data) => {
+    const payload = parse(relayIceCandidateSchema, data, 'webrtc-ice-candidate');
+    if (!payload || !rooms.sharesRoom(socket.id, payload.to)) return;
+    io.to(payload.to).emit('webrtc-ice-candidate', { candidate: payload.candidate, from: socket.id });
+  });
+
+  socket.on('video-size', (data) => {
+    const payload = parse(relayVideoSizeSchema, data, 'video-size');
+    if (!payload || !rooms.sharesRoom(socket.id, payload.to)) return;
+    io.to(payload.to).emit('video-size', { width: payload.width, height: payload.height, from: socket.id });
+  });
+
+  /* ------------------------------ MEDIA STATE -------------------------------- */
+
+  const toggleMedia = (kind: MediaKind, state: boolean) => {
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.updateUser(socket.id, kind === 'audio' ? { isAudioOn: state } : { isVideoOn: state });
+    if (!room || !user) return;
+    socket.to(room.roomId).emit(MEDIA_TOGGLED_EVENTS[kind], { userId: user.userId, state });
+  };
+
+  socket.on('toggle-audio', (data) => {
+    const payload = parse(toggleMediaSchema, data, 'toggle-audio');
+    if (payload) toggleMedia('audio', payload.state);
+  });
+
+  socket.on('toggle-video', (data) => {
+    const payload = parse(toggleMediaSchema, data, 'toggle-video');
+    if (payload) toggleMedia('video', payload.state);
+  });
+
+  socket.on('start-screen-share', (data) => {
+    const payload = parse(startScreenShareSchema, data, 'start-screen-share');
+    if (!payload) return;
+
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.updateUser(socket.id, { isScreenSharing: true, screenStreamId: payload.streamId });
+    if (!room || !user) return;
+    socket.to(room.roomId).emit('screen-share-started', {
+      userId: user.userId,
+      socketId: socket.id,
+      streamId: payload.streamId
+    });
+  });
+
+  socket.on('stop-screen-share', () => {
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.updateUser(socket.id, { isScreenSharing: false, screenStreamId: undefined });
+    if (!room || !user) return;
+    socket.to(room.roomId).emit('screen-share-stopped', { userId: user.userId });
+  });
+
+  /* ------------------------- HANDS AND LIVE REACTIONS ------------------------ */
+
+  socket.on('raise-hand', (data) => {
+    const payload = parse(raiseHandSchema, data, 'raise-hand');
+    if (!payload) return;
+
+    // Raising again keeps the original place in the queue
+    const current = rooms.getUserBySocket(socket.id);
+    const raisedAt = payload.raised ? current?.handRaisedAt ?? Date.now() : undefined;
+
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.updateUser(socket.id, { handRaisedAt: raisedAt });
+    if (!room || !user) return;
+    io.to(room.roomId).emit('hand-changed', { userId: user.userId, raisedAt: raisedAt ?? null });
+  });
+
+  socket.on('lower-hand', (data) => {
+    const payload = parse(lowerHandSchema, data, 'lower-hand');
+    if (!payload) return;
+
+    const { roomId, targetUserId } = payload;
+    const target = rooms.getModeratableUser(socket.id, roomId, targetUserId);
+    if (!target?.handRaisedAt) return;
+
+    rooms.updateUser(target.socketId, { handRaisedAt: undefined });
+    io.to(roomId).emit('hand-changed', { userId: target.userId, raisedAt: null });
+  });
+
+  let lastReactionAt = 0;
+
+  socket.on('send-reaction', (data) => {
+    const payload = parse(sendReactionSchema, data, 'send-reaction');
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.getUserBySocket(socket.id);
+    if (!payload || !room || !user) return;
+
+    const now = Date.now();
+    if (now - lastReactionAt < MIN_REACTION_INTERVAL_MS) return;
+    lastReactionAt = now;
+
+    // The sender already shows its own reaction
+    socket.to(room.roomId).emit('reaction', { userId: user.userId, emoji: payload.emoji });
+  });
+
+  /* ---------------------------------- CHAT ----------------------------------- */
+
+  // Mentions name current participants only, with the names the server knows
+  const resolveMentions = (room: Room, userIds: string[] = []): ChatMention[] | undefined => {
+    const mentions = room.participants
+      .filter(p => userIds.includes(p.userId))
+      .map(p => ({ userId: p.userId, userName: p.userName }));
+    return mentions.length > 0 ? mentions : undefined;
+  };
+
+  // The sender's room and a kept message in it, or undefined
+  const findChatMessage = (roomId: string, messageId: string) => {
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.getUserBySocket(socket.id);
+    if (!room || !user || room.roomId !== roomId) return undefined;
+
+    const message = chatHistory.find(room.roomId, messageId);
+    if (!message || message.deletedAt) return undefined;
+
+    return { room, user, message };
+  };
+
+  const updateChatMessage = (room: Room, message: ChatMessage) => {
+    if (chatHistory.replace(room.roomId, message)) {
+      io.to(room.roomId).emit('chat-message-updated', message);
+    }
+  };
+
+  socket.on('send-chat-message', (data) => {
+    const payload = parse(sendChatMessageSchema, data, 'send-chat-message');
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.getUserBySocket(socket.id);
+    if (!payload || !room || !user) return;
+
+    // The sender picks the id so its data-channel copy matches ours, but it must not
+    // take over someone else's message: edits and deletes find messages by id
+    if (payload.id && chatHistory.find(room.roomId, payload.id)) {
+      console.warn(`⚠️ Dropped chat message from ${socket.id}: id ${payload.id} is already in use`);
+      return;
+    }
+
+    const chatMessage: ChatMessage = {
+      id: payload.id ?? randomUUID(),
+      userId: user.userId,
+      userName: user.userName,
+      message: payload.message,
+      timestamp: new Date().toISOString(),
+      type: 'text',
+      format: payload.format,
+      mentions: resolveMentions(room, payload.mentions)
+    };
+
+    // Direct messages reach the two people involved and nobody else, hosts included
+    if (payload.recipientId) {
+      const recipient = room.participants.find(p => p.userId === payload.recipientId);
+      if (!recipient || recipient.userId === user.userId) return;
+
+      chatMessage.recipientId = recipient.userId;
+      io.to([recipient.socketId, socket.id]).emit('new-chat-message', chatMessage);
+      return;
+    }
+
+    chatHistory.append(room.roomId, chatMessage);
+    io.to(room.roomId).emit('new-chat-message', chatMessage);
+  });
+
+  socket.on('edit-chat-message', (data) => {
+    const payload = parse(editChatMessageSchema, data, 'edit-chat-message');
+    const found = payload && findChatMessage(payload.roomId, payload.messageId);
+    if (!payload || !found || found.message.userId !== found.user.userId) return;
+
+    updateChatMessage(found.room, {
+      ...found.message,
+      message: payload.message,
+      format: payload.format,
+      mentions: resolveMentions(found.room, payload.mentions),
+      editedAt: new Date().toISOString()
+    });
+  });
+
+  socket.on('delete-chat-message', (data) => {
+    const payload = parse(deleteChatMessageSchema, data, 'delete-chat-message');
+    const found = payload && findChatMessage(payload.roomId, payload.messageId);
+    if (!found || found.message.userId !== found.user.userId) return;
+
+    // Keep the id and author so clients can replace it with a placeholder
+    updateChatMessage(found.room, {
+      id: found.message.id,
+      userId: found.message.userId,
+      userName: found.message.userName,
+      message: '',
+      timestamp: found.message.timestamp,
+      type: found.message.type,
+      deletedAt: new Date().toISOString()
+    });
+  });
+
+  socket.on('toggle-chat-reaction', (data) => {
+    const payload = parse(toggleChatReactionSchema, data, 'toggle-chat-reaction');
+    const found = payload && findChatMessage(payload.roomId, payload.messageId);
+    if (!payload || !found) return;
+
+    const { emoji } = payload;
+    const { userId } = found.user;
+    const reactions = { ...found.message.reactions };
+    const reactors = reactions[emoji] ?? [];
+
+    if (reactors.includes(userId)) {
+      const remaining = reactors.filter(id => id !== userId);
+      if (remaining.length > 0) {
+        reactions[emoji] = remaining;
+      } else {
+        delete reactions[emoji];
+      }
+    } else {
+      reactions[emoji] = [...reactors, userId];
+    }
+
+    updateChatMessage(found.room, { ...found.message, reactions });
+  });
+
+  socket.on('get-chat-history', (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    const payload = parse(getChatHistorySchema, data, 'get-chat-history');
+    if (!payload) return ack({ success: false, error: 'Invalid request' });
+
+    const room = rooms.getRoomBySocket(socket.id);
+    if (room?.roomId !== payload.roomId) return ack({ success: false, error: 'Not in this room' });
+
+    const { messages, hasMore } = chatHistory.getPage(room.roomId, payload.limit ?? HISTORY_PAGE_SIZE, payload.before);
+    ack({ success: true, messages, hasMore });
+  });
+
+  /* ---------------------------- ROOM MANAGEMENT ------------------------------ */
+
+  socket.on('lock-room', (data) => {
+    const payload = parse(lockRoomSchema, data, 'lock-room');
+    if (!payload || !rooms.isHost(socket.id, payload.roomId)) return;
+
+    const { roomId, password } = payload;
+    rooms.lockRoom(roomId, password);
+    io.to(roomId).emit('room-locked', { isLocked: true });
+  });
+
+  socket.on('unlock-room', (data) => {
+    const payload = parse(roomIdSchema, data, 'unlock-room');
+    if (!payload || !rooms.isHost(socket.id, payload.roomId)) return;
+
+    const { roomId } = payload;
+    rooms.unlockRoom(roomId);
+    io.to(roomId).emit('room-locked', { isLocked: false });
+  });
+
+  socket.on('create-invite', (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    const payload = parse(roomIdSchema, data, 'create-invite');
+    if (!payload) return ack({ success: false, error: 'Invalid request' });
+    if (!rooms.isModerator(socket.id, payload.roomId)) return ack({ success: false, error: 'Only hosts and co-hosts can invite' });
+
+    const invite = rooms.createInvite(payload.roomId);
+    if (!invite) return ack({ success: false, error: 'Room is not locked' });
+    ack({ success: true, ...invite });
+  });
+
+  // Only for participants, and for the user the server has on record rather than one
+  // named by the client: anyone else could use our TURN server as a free relay
+  socket.on('get-ice-config', (data, ack) => {
+    if (typeof ack !== 'function') return;
+
+    const payload = parse(roomIdSchema, data, 'get-ice-config');
+    if (!payload) return ack({ success: false, error: 'Invalid request' });
+
+    const room = rooms.getRoomBySocket(socket.id);
+    const user = rooms.getUserBySocket(socket.id);
+    if (room?.roomId !== payload.roomId || !user) return ack({ success: false, error: 'Not in this room' });
+
+    ack({ success: true, ...getIceConfig(user.userId) });
+  });
+
+  /* -------------------------------- MODERATION ------------------------------- */
+
+  // Hosts moderate everyone else, co-hosts moderate participants; see canModerate
+
+  socket.on('kick-user', (data) => {
+    const payload = parse(kickUserSchema, data, 'kick-user');
+    const actor = rooms.getUserBySocket(socket.id);
+    if (!payload || !actor) return;
+
+    const { roomId, targetUserId } = payload;
+    const target = rooms.getModeratableUser(socket.id, roomId, targetUserId);
+    if (!target) return;
+
+    const targetSocket = io.sockets.sockets.get(target.socketId);
+    targetSocket?.emit('kicked', { reason: `Removed by ${actor.userName}` });
+
+    rooms.removeUser(roomId, target.userId);
+    targetSocket?.leave(roomId);
+    io.to(roomId).emit('user-left', { userId: target.userId, socketId: target.socketId });
+  });
+
+  // The participant's own client turns the device off and announces it with
+  // `toggle-audio` / `toggle-video`, so everyone sees the same state change
+  socket.on('disable-participant-media', (data) => {
+    const payload = parse(disableParticipantMediaSchema, data, 'disable-participant-media');
+    const actor = rooms.getUserBySocket(socket.id);
+    if (!payload || !actor) return;
+
+    const { roomId, targetUserId, kind } = payload;
+    const target = rooms.getModeratableUser(socket.id, roomId, targetUserId);
+    if (!target) return;
+
+    io.to(target.socketId).emit('media-disabled', { kind, by: actor.userName });
+  });
+
+  socket.on('mute-all', (data) => {
+    const payload = parse(roomIdSchema, data, 'mute-all');
+    const actor = rooms.getUserBySocket(socket.id);
+    if (!payload || !actor) return;
+
+    const targets = rooms.getRoom(payload.roomId)?.participants.filter(p =>
+      p.isAudioOn && rooms.getModeratableUser(socket.id, payload.roomId, p.userId)
+    ) ?? [];
+    if (targets.length === 0) return;
+
+    io.to(targets.map(p => p.socketId)).emit('media-disabled', { kind: 'audio', by: actor.userName });
+  });
+
+  socket.on('request-unmute', (data) => {
+    const payload = parse(requestUnmuteSchema, data, 'request-unmute');
+    const actor = rooms.getUserBySocket(socket.id);
+    if (!payload || !actor) return;
+
+    const target = rooms.getModeratableUser(socket.id, payload.roomId, payload.targetUserId);
+    if (!target || target.isAudioOn) return;
+
+    io.to(target.socketId).emit('unmute-requested', { by: actor.userName });
+  });
+
+  // Announced with `host-changed` by the RoomManager's onHostChanged
+  socket.on('transfer-host', (data) => {
+    const payload = parse(transferHostSchema, data, 'transfer-host');
+    if (!payload || !rooms.isHost(socket.id, payload.roomId)) return;
+
+    rooms.transferHost(payload.roomId, payload.targetUserId);
+  });
+
+  socket.on('set-role', (data) => {
+    const payload = parse(setRoleSchema, data, 'set-role');
+    if (!payload || !rooms.isHost(socket.id, payload.roomId)) return;
+
+    const { roomId, targetUserId, role } = payload;
+    const target = rooms.setRole(roomId, targetUserId, role);
+    if (!target) return;
+
+    io.to(roomId).emit('role-changed', { userId: target.userId, role: target.role });
+    emitWaitingRoom(io, rooms.getRoom(roomId)!);
+  });
+
+  /* ------------------------------- WAITING ROOM ------------------------------ */
+
+  const admit = (roomId: string, requestId: string) => {
+    const result = rooms.admit(roomId, requestId);
+    if (!result) return;
+
+    const joiner = io.sockets.sockets.get(result.user.socketId);
+    if (joiner) {
+      completeJoin(joiner, result.room, result.user);
+    } else {
+      rooms.leaveRoom(result.user.socketId);
+    }
+  };
+
+  // Turning the waiting room off lets in everyone still waiting
+  socket.on('set-waiting-room', (data) => {
+    const payload = parse(setWaitingRoomSchema, data, 'set-waiting-room');
+    const room = payload && rooms.getRoom(payload.roomId);
+    if (!payload || !room || !rooms.isModerator(socket.id, room.roomId)) return;
+
+    rooms.setWaitingRoom(room.roomId, payload.enabled);
+    if (!payload.enabled) {
+      room.waiting.forEach(w => admit(room.roomId, w.requestId));
+    }
+    emitWaitingRoom(io, room);
+  });
+
+  socket.on('admit-participant', (data) => {
+    const payload = parse(waitingRequestSchema, data, 'admit-participant');
+    const room = payload && rooms.getRoom(payload.roomId);
+    if (!payload || !room || !rooms.isModerator(socket.id, room.roomId)) return;
+
+    admit(room.roomId, payload.requestId);
+    emitWaitingRoom(io, room);
+  });
+
+  socket.on('admit-all', (data) => {
+    const payload = parse(roomIdSchema, data, 'admit-all');
+    const room = payload && rooms.getRoom(payload.roomId);
+    if (!payload || !room || !rooms.isModerator(socket.id, room.roomId)) return;
+
+    room.waiting.forEach(w => admit(room.roomId, w.requestId));
+    emitWaitingRoom(io, room);
+  });
+
+  socket.on('deny-participant', (data) => {
+    const payload = parse(waitingRequestSchema, data, 'deny-participant');
+    const room = payload && rooms.getRoom(payload.roomId);
+    if (!payload || !room || !rooms.isModerator(socket.id, room.roomId)) return;
+
+    const denied = rooms.deny(room.roomId, payload.requestId);
+    if (!denied) return;
+
+    io.to(denied.socketId).emit('join-denied', { reason: 'The host did not let you in' });
+    emitWaitingRoom(io, room);
+  });
+
+  socket.on('ping', () => {
+    socket.emit('pong');
+  });
+}